@@ -0,0 +1,135 @@
+/**
+ * Backoff policies for withRetry
+ *
+ * A policy decides how long to wait before each retry and when to give up.
+ * Replicas that share a fixed delay array retry in lockstep against the same
+ * provider; the jittered exponential policies spread those retries out.
+ *
+ * @example
+ * ```typescript
+ * const policy = exponentialBackoff({
+ *   initialDelayMs: 500,
+ *   maxDelayMs: 10_000,
+ *   maxRetries: 4,
+ *   maxElapsedMs: 30_000,
+ *   jitter: "full",
+ * });
+ *
+ * await withRetry(() => callProvider(), policy, "provider_call");
+ * ```
+ */
+
+type JitterStrategy = "none" | "full" | "equal" | "decorrelated";
+
+interface BackoffPolicy {
+  /** Name included in retry logs (e.g. "exponential_full_jitter") */
+  readonly name: string;
+  /** Number of retries after the first attempt */
+  readonly maxRetries: number;
+  /** Give up once the next sleep would push total elapsed time past this */
+  readonly maxElapsedMs?: number;
+  /** Longest single sleep; also caps server-requested Retry-After delays */
+  readonly maxDelayMs?: number;
+  /**
+   * Compute the delay before the given retry
+   * @param retryNumber - 1 for the first retry, 2 for the second, ...
+   * @param previousDelayMs - Delay used before the previous retry (0 initially)
+   */
+  computeDelay(retryNumber: number, previousDelayMs: number): number;
+}
+
+interface ExponentialBackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs?: number;
+  multiplier?: number;
+  maxRetries?: number;
+  maxElapsedMs?: number;
+  jitter?: JitterStrategy;
+  /** Random source in [0, 1), injectable for deterministic delays */
+  random?: () => number;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_MULTIPLIER = 2;
+
+function randomBetween(min: number, max: number, random: () => number): number {
+  return min + random() * (max - min);
+}
+
+/**
+ * Policy that replays a hand-written delay array.
+ * This is what withRetry uses when called with `number[]`.
+ */
+function fixedBackoff(delays: number[]): BackoffPolicy {
+  return {
+    name: "fixed",
+    maxRetries: delays.length,
+    computeDelay: (retryNumber: number) => delays[retryNumber - 1] ?? 0,
+  };
+}
+
+/**
+ * Exponential backoff with optional jitter
+ *
+ * - none: initial * multiplier^(n-1), capped at maxDelayMs
+ * - full: random between 0 and the capped exponential delay
+ * - equal: half the capped exponential delay plus a random half
+ * - decorrelated: random between initial and 3x the previous delay, capped
+ */
+function exponentialBackoff(options: ExponentialBackoffOptions): BackoffPolicy {
+  const {
+    initialDelayMs,
+    maxDelayMs = Number.POSITIVE_INFINITY,
+    multiplier = DEFAULT_MULTIPLIER,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    maxElapsedMs,
+    jitter = "none",
+    random = Math.random,
+  } = options;
+
+  if (initialDelayMs < 0) {
+    throw new Error(`initialDelayMs must be >= 0, got ${initialDelayMs}`);
+  }
+  if (maxRetries < 0) {
+    throw new Error(`maxRetries must be >= 0, got ${maxRetries}`);
+  }
+
+  const cappedExponential = (retryNumber: number): number =>
+    Math.min(maxDelayMs, initialDelayMs * multiplier ** (retryNumber - 1));
+
+  const computeDelay = (retryNumber: number, previousDelayMs: number) => {
+    switch (jitter) {
+      case "none":
+        return cappedExponential(retryNumber);
+      case "full":
+        return Math.round(
+          randomBetween(0, cappedExponential(retryNumber), random),
+        );
+      case "equal": {
+        const half = cappedExponential(retryNumber) / 2;
+        return Math.round(half + randomBetween(0, half, random));
+      }
+      case "decorrelated": {
+        const previous = Math.max(previousDelayMs, initialDelayMs);
+        return Math.round(
+          Math.min(
+            maxDelayMs,
+            randomBetween(initialDelayMs, previous * 3, random),
+          ),
+        );
+      }
+    }
+  };
+
+  const policy: BackoffPolicy = {
+    name: jitter === "none" ? "exponential" : `exponential_${jitter}_jitter`,
+    maxRetries,
+    computeDelay,
+    ...(maxDelayMs !== Number.POSITIVE_INFINITY ? { maxDelayMs } : {}),
+  };
+
+  return maxElapsedMs !== undefined ? { ...policy, maxElapsedMs } : policy;
+}
+
+export { exponentialBackoff, fixedBackoff };
+export type { BackoffPolicy, ExponentialBackoffOptions, JitterStrategy };
@@ -0,0 +1,288 @@
+import { createLogger } from "./logger.ts";
+
+const logger = createLogger("bulkhead", { module: "bulkhead" });
+
+export interface BulkheadOptions {
+  /** Calls allowed in flight at once */
+  maxConcurrent: number;
+  /** Calls allowed to wait for a slot (default unbounded) */
+  maxQueued?: number;
+  /** Reject a queued call after waiting this long in milliseconds */
+  queueTimeoutMs?: number;
+}
+
+export interface BulkheadRunOptions {
+  /** Higher priority calls leave the queue first (default 0) */
+  priority?: number;
+  /** Removes the call from the queue if aborted before it starts */
+  signal?: AbortSignal;
+}
+
+export interface BulkheadMetrics {
+  name: string;
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+  completed: number;
+  rejected: number;
+  waitTimeAvgMs: number;
+  waitTimeMaxMs: number;
+}
+
+export type BulkheadRejectReason = "queue_full" | "queue_timeout" | "aborted";
+
+export class BulkheadRejectedError extends Error {
+  readonly bulkheadName: string;
+  readonly reason: BulkheadRejectReason;
+
+  constructor(bulkheadName: string, reason: BulkheadRejectReason) {
+    super(`Bulkhead '${bulkheadName}' rejected call: ${reason}`);
+    this.name = "BulkheadRejectedError";
+    this.bulkheadName = bulkheadName;
+    this.reason = reason;
+  }
+}
+
+interface QueuedCall {
+  priority: number;
+  enqueuedAt: number;
+  start: () => void;
+  reject: (error: BulkheadRejectedError) => void;
+}
+
+/**
+ * Concurrency limiter (semaphore with a bounded priority queue)
+ *
+ * @example
+ * ```typescript
+ * const bulkhead = new Bulkhead("anthropic", { maxConcurrent: 8, maxQueued: 100 });
+ * const result = await bulkhead.run(() => callAnthropic(request), { priority: 1 });
+ * ```
+ */
+export class Bulkhead {
+  readonly name: string;
+  private readonly maxConcurrent: number;
+  private readonly maxQueued: number;
+  private readonly queueTimeoutMs?: number;
+
+  private active = 0;
+  private queue: QueuedCall[] = [];
+  private completed = 0;
+  private rejected = 0;
+  private totalWaitMs = 0;
+  private waitCount = 0;
+  private maxWaitMs = 0;
+
+  constructor(name: string, options: BulkheadOptions) {
+    if (!Number.isInteger(options.maxConcurrent) || options.maxConcurrent < 1) {
+      throw new Error(
+        `maxConcurrent must be an integer >= 1, got ${options.maxConcurrent}`
+      );
+    }
+    if (
+      options.maxQueued !== undefined &&
+      !(Number.isInteger(options.maxQueued) && options.maxQueued >= 0) &&
+      options.maxQueued !== Number.POSITIVE_INFINITY
+    ) {
+      throw new Error(
+        `maxQueued must be an integer >= 0, got ${options.maxQueued}`
+      );
+    }
+
+    this.name = name;
+    this.maxConcurrent = options.maxConcurrent;
+    this.maxQueued = options.maxQueued ?? Number.POSITIVE_INFINITY;
+    if (options.queueTimeoutMs !== undefined) {
+      this.queueTimeoutMs = options.queueTimeoutMs;
+    }
+  }
+
+  /**
+   * Run `fn` once a slot is free
+   * @throws BulkheadRejectedError when the queue is full, the wait times out, or the signal aborts
+   */
+  async run<T>(
+    fn: () => Promise<T>,
+    options: BulkheadRunOptions = {}
+  ): Promise<T> {
+    await this.acquire(options);
+
+    try {
+      return await fn();
+    } finally {
+      this.active--;
+      this.completed++;
+      this.dispatch();
+    }
+  }
+
+  getMetrics(): BulkheadMetrics {
+    return {
+      name: this.name,
+      active: this.active,
+      queued: this.queue.length,
+      maxConcurrent: this.maxConcurrent,
+      completed: this.completed,
+      rejected: this.rejected,
+      waitTimeAvgMs: this.waitCount > 0
+        ? Math.round((this.totalWaitMs / this.waitCount) * 100) / 100
+        : 0,
+      waitTimeMaxMs: this.maxWaitMs,
+    };
+  }
+
+  private acquire(options: BulkheadRunOptions): Promise<void> {
+    const { priority = 0, signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(this.reject("aborted"));
+    }
+
+    if (this.active < this.maxConcurrent && this.queue.length === 0) {
+      this.active++;
+      this.recordWait(0);
+      return Promise.resolve();
+    }
+
+    if (this.queue.length >= this.maxQueued) {
+      return Promise.reject(this.reject("queue_full"));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      const entry: QueuedCall = {
+        priority,
+        enqueuedAt: Date.now(),
+        start: () => {
+          cleanup();
+          resolve();
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+      };
+
+      const abandon = (reason: BulkheadRejectReason) => {
+        const index = this.queue.indexOf(entry);
+        if (index === -1) return;
+        this.queue.splice(index, 1);
+        entry.reject(this.reject(reason));
+      };
+
+      const onAbort = () => abandon("aborted");
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      if (this.queueTimeoutMs !== undefined) {
+        timer = setTimeout(() => abandon("queue_timeout"), this.queueTimeoutMs);
+      }
+
+      // Insert after every entry of equal or higher priority (FIFO per priority)
+      const insertAt = this.queue.findIndex((q) => q.priority < priority);
+      if (insertAt === -1) {
+        this.queue.push(entry);
+      } else {
+        this.queue.splice(insertAt, 0, entry);
+      }
+    });
+  }
+
+  private dispatch(): void {
+    while (this.active < this.maxConcurrent && this.queue.length > 0) {
+      const next = this.queue.shift()!;
+      this.active++;
+      this.recordWait(Date.now() - next.enqueuedAt);
+      next.start();
+    }
+  }
+
+  private recordWait(waitMs: number): void {
+    this.totalWaitMs += waitMs;
+    this.waitCount++;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+  }
+
+  private reject(reason: BulkheadRejectReason): BulkheadRejectedError {
+    this.rejected++;
+
+    logger.warn(`Bulkhead '${this.name}' rejected call`, {
+      operation: "bulkhead_rejected",
+      bulkhead_name: this.name,
+      reason,
+      active: this.active,
+      queued: this.queue.length,
+      max_concurrent: this.maxConcurrent,
+    });
+
+    return new BulkheadRejectedError(this.name, reason);
+  }
+}
+
+/**
+ * Keyed collection of bulkheads (e.g. one per provider)
+ */
+export class BulkheadRegistry {
+  private readonly bulkheads = new Map<string, Bulkhead>();
+
+  /**
+   * Get the bulkhead for a key, creating it with `options` on first use
+   */
+  get(key: string, options: BulkheadOptions): Bulkhead {
+    let bulkhead = this.bulkheads.get(key);
+    if (!bulkhead) {
+      bulkhead = new Bulkhead(key, options);
+      this.bulkheads.set(key, bulkhead);
+    }
+    return bulkhead;
+  }
+
+  getAll(): Bulkhead[] {
+    return [...this.bulkheads.values()];
+  }
+
+  /**
+   * Flat metrics suitable for HealthMiddleware.getHealthStatus's
+   * service_specific map, e.g. `bulkhead_openai_queued: 3`
+   */
+  getHealthMetrics(): Record<string, string | number | boolean> {
+    const metrics: Record<string, string | number | boolean> = {};
+
+    for (const bulkhead of this.bulkheads.values()) {
+      const stats = bulkhead.getMetrics();
+      const prefix = `bulkhead_${stats.name.replace(/[^a-zA-Z0-9]+/g, "_")}`;
+      metrics[`${prefix}_active`] = stats.active;
+      metrics[`${prefix}_queued`] = stats.queued;
+      metrics[`${prefix}_rejected`] = stats.rejected;
+      metrics[`${prefix}_wait_time_avg_ms`] = stats.waitTimeAvgMs;
+      metrics[`${prefix}_wait_time_max_ms`] = stats.waitTimeMaxMs;
+    }
+
+    return metrics;
+  }
+}
+
+/**
+ * Shared registry used by the provider clients in service-modules
+ * (keys: "openai", "firecrawl").
+ */
+const defaultRegistry = new BulkheadRegistry();
+
+export function getBulkhead(key: string, options: BulkheadOptions): Bulkhead {
+  return defaultRegistry.get(key, options);
+}
+
+/**
+ * Health metrics for every bulkhead in the shared registry
+ */
+export function getBulkheadHealthMetrics(): Record<
+  string,
+  string | number | boolean
+> {
+  return defaultRegistry.getHealthMetrics();
+}
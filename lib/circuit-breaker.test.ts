@@ -0,0 +1,64 @@
+import { rejects, strictEqual } from "node:assert/strict";
+import { CircuitBreaker, CircuitOpenError } from "./circuit-breaker.ts";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class ServerError extends Error {
+  readonly statusCode = 503;
+}
+
+/**
+ * A breaker that opens on one failure and half-opens after 20ms, plus a
+ * slow call admitted while it was still closed
+ */
+async function openedAroundSlowCall<T>(slowCall: () => Promise<T>) {
+  const breaker = new CircuitBreaker("test", {
+    consecutiveFailureThreshold: 1,
+    coolDownMs: 20,
+  });
+  const slow = breaker.execute(slowCall);
+
+  await rejects(breaker.execute(() => Promise.reject(new ServerError("down"))));
+  strictEqual(breaker.getState(), "open");
+  await sleep(30);
+  strictEqual(breaker.getState(), "half_open");
+
+  return { breaker, slow };
+}
+
+Deno.test("a stale success from before the circuit opened does not close it", async () => {
+  const { breaker, slow } = await openedAroundSlowCall(async () => {
+    await sleep(60);
+    return "late";
+  });
+
+  strictEqual(await slow, "late");
+  strictEqual(breaker.getState(), "half_open");
+
+  // The trial slot is still free and a real trial decides the circuit
+  let releaseTrial!: () => void;
+  const trial = breaker.execute(() => new Promise<void>((resolve) => releaseTrial = resolve));
+  await rejects(breaker.execute(() => Promise.resolve()), CircuitOpenError);
+  releaseTrial();
+  await trial;
+  strictEqual(breaker.getState(), "closed");
+});
+
+Deno.test("a stale failure from before the circuit opened does not reopen it", async () => {
+  const { breaker, slow } = await openedAroundSlowCall(async () => {
+    await sleep(60);
+    throw new ServerError("late");
+  });
+
+  await rejects(slow, ServerError);
+  strictEqual(breaker.getState(), "half_open");
+  strictEqual(breaker.getStats().consecutiveFailures, 1);
+});
+
+Deno.test("a failed trial reopens the circuit", async () => {
+  const { breaker, slow } = await openedAroundSlowCall(() => Promise.resolve());
+  await slow;
+
+  await rejects(breaker.execute(() => Promise.reject(new ServerError("still down"))));
+  strictEqual(breaker.getState(), "open");
+});
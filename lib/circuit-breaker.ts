@@ -0,0 +1,413 @@
+import { createLogger } from "./logger.ts";
+import { isRetryableError } from "./retryable-errors.ts";
+
+const logger = createLogger("circuit-breaker", { module: "circuit-breaker" });
+
+/**
+ * Circuit breaker states
+ * - closed: calls flow normally, outcomes are tracked
+ * - open: calls fail fast with CircuitOpenError until the cool-down ends
+ * - half_open: a limited number of trial calls decide whether to close again
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerOptions {
+  /** Open when the failure rate in the window reaches this percentage (default 50) */
+  failureRateThreshold?: number;
+  /** Minimum calls in the window before the failure rate is evaluated (default 10) */
+  minimumRequests?: number;
+  /** Open after this many consecutive failures regardless of rate (default 5) */
+  consecutiveFailureThreshold?: number;
+  /** Rolling window for the failure rate in milliseconds (default 60s) */
+  windowMs?: number;
+  /** How long to stay open before allowing trial calls (default 30s) */
+  coolDownMs?: number;
+  /** Concurrent trial calls allowed while half-open (default 1) */
+  halfOpenMaxCalls?: number;
+  /**
+   * Decide whether a thrown error counts as a failure.
+   * Defaults to isRetryableError so 4xx client errors do not trip the breaker.
+   * Cancelled calls are never passed here (see ExecuteOptions.signal).
+   */
+  isFailure?: (error: unknown) => boolean;
+}
+
+export interface CircuitBreakerStats {
+  name: string;
+  state: CircuitState;
+  windowRequests: number;
+  windowFailures: number;
+  failureRatePercentage: number;
+  consecutiveFailures: number;
+  openedAt?: string;
+}
+
+interface ExecuteOptions<T> {
+  /** Count a resolved value as a failure (e.g. a 5xx Response) */
+  isFailureResult?: (result: T) => boolean;
+  /**
+   * Signal passed to the call. Calls that settle after it was aborted, or
+   * that throw an AbortError, are neutral: they count as neither success
+   * nor failure, so cancelled calls (e.g. hedge losers) cannot trip the
+   * breaker. Aborts with a TimeoutError still count, since a dependency
+   * that does not answer in time is failing.
+   */
+  signal?: AbortSignal;
+}
+
+interface OutcomeEntry {
+  timestamp: number;
+  failure: boolean;
+}
+
+export class CircuitOpenError extends Error {
+  readonly breakerName: string;
+  readonly retryAfterMs: number;
+
+  constructor(breakerName: string, retryAfterMs: number) {
+    super(
+      `Circuit '${breakerName}' is open; retry after ${retryAfterMs}ms`
+    );
+    this.name = "CircuitOpenError";
+    this.breakerName = breakerName;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+function isTimeout(reason: unknown): boolean {
+  return reason instanceof DOMException && reason.name === "TimeoutError";
+}
+
+/**
+ * Whether a call was cancelled by its caller rather than failed by the
+ * dependency: an AbortError, or any outcome after a non-timeout abort
+ */
+function isCancelled(error: unknown, signal?: AbortSignal): boolean {
+  if (signal?.aborted && !isTimeout(signal.reason)) return true;
+  return error instanceof Error && error.name === "AbortError";
+}
+
+/**
+ * Circuit breaker for calls to an external dependency
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker("firecrawl", { coolDownMs: 15_000 });
+ * const res = await breaker.execute(() => fetch(url), {
+ *   isFailureResult: (r) => r.status >= 500,
+ * });
+ * ```
+ */
+export class CircuitBreaker {
+  readonly name: string;
+  private readonly failureRateThreshold: number;
+  private readonly minimumRequests: number;
+  private readonly consecutiveFailureThreshold: number;
+  private readonly windowMs: number;
+  private readonly coolDownMs: number;
+  private readonly halfOpenMaxCalls: number;
+  private readonly isFailure: (error: unknown) => boolean;
+
+  private state: CircuitState = "closed";
+  private outcomes: OutcomeEntry[] = [];
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private halfOpenInFlight = 0;
+
+  constructor(name: string, options: CircuitBreakerOptions = {}) {
+    this.name = name;
+    this.failureRateThreshold = options.failureRateThreshold ?? 50;
+    this.minimumRequests = options.minimumRequests ?? 10;
+    this.consecutiveFailureThreshold = options.consecutiveFailureThreshold ?? 5;
+    this.windowMs = options.windowMs ?? 60 * 1000;
+    this.coolDownMs = options.coolDownMs ?? 30 * 1000;
+    this.halfOpenMaxCalls = options.halfOpenMaxCalls ?? 1;
+    this.isFailure = options.isFailure ?? isRetryableError;
+  }
+
+  /**
+   * Run `fn` through the breaker
+   * @throws CircuitOpenError when the circuit is open or half-open trials are in use
+   */
+  async execute<T>(
+    fn: () => Promise<T>,
+    options: ExecuteOptions<T> = {}
+  ): Promise<T> {
+    const trial = this.acquire();
+
+    let result: T;
+    try {
+      result = await fn();
+    } catch (error) {
+      if (isCancelled(error, options.signal)) {
+        this.recordNeutral(trial);
+      } else if (this.isFailure(error)) {
+        this.recordFailure(trial);
+      } else {
+        this.recordSuccess(trial);
+      }
+      throw error;
+    }
+
+    if (isCancelled(undefined, options.signal)) {
+      this.recordNeutral(trial);
+    } else if (options.isFailureResult?.(result)) {
+      this.recordFailure(trial);
+    } else {
+      this.recordSuccess(trial);
+    }
+
+    return result;
+  }
+
+  getState(): CircuitState {
+    this.refreshState(Date.now());
+    return this.state;
+  }
+
+  getStats(): CircuitBreakerStats {
+    const now = Date.now();
+    this.refreshState(now);
+    this.pruneOutcomes(now);
+
+    const windowFailures = this.outcomes.filter((o) => o.failure).length;
+    const windowRequests = this.outcomes.length;
+
+    const stats: CircuitBreakerStats = {
+      name: this.name,
+      state: this.state,
+      windowRequests,
+      windowFailures,
+      failureRatePercentage: windowRequests > 0
+        ? Math.round((windowFailures / windowRequests) * 10000) / 100
+        : 0,
+      consecutiveFailures: this.consecutiveFailures,
+    };
+
+    if (this.state !== "closed") {
+      stats.openedAt = new Date(this.openedAt).toISOString();
+    }
+
+    return stats;
+  }
+
+  /**
+   * Force the breaker back to closed and forget recorded outcomes
+   */
+  reset(): void {
+    this.outcomes = [];
+    this.consecutiveFailures = 0;
+    this.halfOpenInFlight = 0;
+    this.transition("closed", "manual_reset");
+  }
+
+  /**
+   * Admit a call, or throw CircuitOpenError
+   * @returns whether the call took a half-open trial slot
+   */
+  private acquire(): boolean {
+    const now = Date.now();
+    this.refreshState(now);
+
+    if (this.state === "open") {
+      throw new CircuitOpenError(
+        this.name,
+        Math.max(0, this.openedAt + this.coolDownMs - now)
+      );
+    }
+
+    if (this.state === "half_open") {
+      if (this.halfOpenInFlight >= this.halfOpenMaxCalls) {
+        throw new CircuitOpenError(this.name, 0);
+      }
+      this.halfOpenInFlight++;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Only trial calls decide a half-open circuit; a call admitted while
+   * closed that finishes after the circuit went half-open is neutral
+   */
+  private recordSuccess(trial: boolean): void {
+    if (!trial && this.state === "half_open") return;
+
+    const now = Date.now();
+    this.consecutiveFailures = 0;
+
+    if (trial) {
+      this.releaseTrial();
+      if (this.state === "half_open") {
+        this.outcomes = [];
+        this.transition("closed", "trial_succeeded");
+      }
+      return;
+    }
+
+    this.outcomes.push({ timestamp: now, failure: false });
+    this.pruneOutcomes(now);
+  }
+
+  /**
+   * Release the call's trial slot (if any) without recording an outcome
+   */
+  private recordNeutral(trial: boolean): void {
+    if (trial) this.releaseTrial();
+  }
+
+  private recordFailure(trial: boolean): void {
+    if (!trial && this.state === "half_open") return;
+
+    const now = Date.now();
+    this.consecutiveFailures++;
+
+    if (trial) {
+      this.releaseTrial();
+      if (this.state === "half_open") this.open(now, "trial_failed");
+      return;
+    }
+
+    this.outcomes.push({ timestamp: now, failure: true });
+    this.pruneOutcomes(now);
+
+    if (this.state !== "closed") return;
+
+    if (this.consecutiveFailures >= this.consecutiveFailureThreshold) {
+      this.open(now, "consecutive_failures");
+      return;
+    }
+
+    const failures = this.outcomes.filter((o) => o.failure).length;
+    const failureRate = (failures / this.outcomes.length) * 100;
+    if (
+      this.outcomes.length >= this.minimumRequests &&
+      failureRate >= this.failureRateThreshold
+    ) {
+      this.open(now, "failure_rate");
+    }
+  }
+
+  private releaseTrial(): void {
+    this.halfOpenInFlight = Math.max(0, this.halfOpenInFlight - 1);
+  }
+
+  private open(now: number, reason: string): void {
+    this.openedAt = now;
+    this.transition("open", reason);
+  }
+
+  private refreshState(now: number): void {
+    if (this.state === "open" && now - this.openedAt >= this.coolDownMs) {
+      this.halfOpenInFlight = 0;
+      this.transition("half_open", "cool_down_elapsed");
+    }
+  }
+
+  private pruneOutcomes(now: number): void {
+    const cutoff = now - this.windowMs;
+    if (this.outcomes.length > 0 && this.outcomes[0].timestamp <= cutoff) {
+      this.outcomes = this.outcomes.filter((o) => o.timestamp > cutoff);
+    }
+  }
+
+  private transition(next: CircuitState, reason: string): void {
+    if (this.state === next) return;
+
+    const previous = this.state;
+    this.state = next;
+
+    const metadata = {
+      operation: "circuit_state_change",
+      circuit_name: this.name,
+      previous_state: previous,
+      new_state: next,
+      reason,
+      consecutive_failures: this.consecutiveFailures,
+    };
+
+    if (next === "open") {
+      logger.warn(`Circuit '${this.name}' opened`, metadata);
+    } else {
+      logger.info(`Circuit '${this.name}' is now ${next}`, metadata);
+    }
+  }
+}
+
+/**
+ * Keyed collection of circuit breakers (e.g. one per provider+model)
+ */
+export class CircuitBreakerRegistry {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly defaults: CircuitBreakerOptions;
+
+  constructor(defaults: CircuitBreakerOptions = {}) {
+    this.defaults = defaults;
+  }
+
+  /**
+   * Get the breaker for a key, creating it on first use
+   */
+  get(key: string, options?: CircuitBreakerOptions): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(key, { ...this.defaults, ...options });
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  getAll(): CircuitBreaker[] {
+    return [...this.breakers.values()];
+  }
+
+  /**
+   * Flat metrics suitable for HealthMiddleware.getHealthStatus's
+   * service_specific map, e.g. `circuit_openai_gpt_5_5_state: "open"`
+   */
+  getHealthMetrics(): Record<string, string | number | boolean> {
+    const metrics: Record<string, string | number | boolean> = {};
+
+    for (const breaker of this.breakers.values()) {
+      const stats = breaker.getStats();
+      const prefix = `circuit_${stats.name.replace(/[^a-zA-Z0-9]+/g, "_")}`;
+      metrics[`${prefix}_state`] = stats.state;
+      metrics[`${prefix}_failure_rate_percentage`] =
+        stats.failureRatePercentage;
+      metrics[`${prefix}_consecutive_failures`] = stats.consecutiveFailures;
+    }
+
+    return metrics;
+  }
+}
+
+/**
+ * Shared registry used by the provider clients in service-modules
+ * (keys: "firecrawl", "openai:<model>").
+ */
+const defaultRegistry = new CircuitBreakerRegistry();
+
+export function getCircuitBreaker(
+  key: string,
+  options?: CircuitBreakerOptions
+): CircuitBreaker {
+  return defaultRegistry.get(key, options);
+}
+
+/**
+ * Health metrics for every breaker in the shared registry
+ *
+ * @example
+ * ```typescript
+ * const health = healthMiddleware.getHealthStatus({
+ *   ...getCircuitBreakerHealthMetrics(),
+ * });
+ * ```
+ */
+export function getCircuitBreakerHealthMetrics(): Record<
+  string,
+  string | number | boolean
+> {
+  return defaultRegistry.getHealthMetrics();
+}
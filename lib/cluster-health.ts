@@ -0,0 +1,364 @@
+/**
+ * Cluster health aggregation for gateway services
+ *
+ * Polls the health endpoints of downstream services (anything serving
+ * `ServiceResponse<EnhancedHealthResponse>`, e.g. createHealthEndpoint),
+ * caches the results and combines them into one report:
+ * - any critical service unhealthy or unreachable: cluster unhealthy
+ * - weighted health score (healthy 1, degraded 0.5, unhealthy 0) below
+ *   `unhealthyScore`: unhealthy
+ * - any other service not healthy: degraded
+ *
+ * Probes carry the current correlation ID (or one per poll round) and
+ * traceparent, so they can be followed in Seq and tracing backends.
+ *
+ * @example
+ * ```typescript
+ * const cluster = createClusterHealthAggregator("gateway", {
+ *   services: [
+ *     { name: "service-pdf", url: "http://service-pdf:8000/health" },
+ *     { name: "service-search", url: "http://service-search:8000/health", critical: false, weight: 2 },
+ *   ],
+ *   pollIntervalMs: 15_000,
+ * });
+ * cluster.start();
+ * router.get("/health/cluster", cluster.createEndpoint());
+ * ```
+ */
+
+import { createLogger } from "./logger.ts";
+import {
+  addCorrelationHeader,
+  generateCorrelationId,
+} from "./correlation/correlation.ts";
+import { getContextCorrelationId } from "./correlation/context.ts";
+import { injectTraceHeaders } from "./correlation/trace-context.ts";
+import { serializeError } from "./logging/serializers.ts";
+import type {
+  ClusterHealthResponse,
+  ClusterServiceHealth,
+  EnhancedHealthResponse,
+  HealthStatus,
+  ServiceResponse,
+} from "./types.ts";
+
+export interface ClusterServiceConfig {
+  name: string;
+  /** Health endpoint URL */
+  url: string;
+  /** An unhealthy critical service makes the cluster unhealthy (default true) */
+  critical?: boolean;
+  /** Share of the weighted health score (default 1) */
+  weight?: number;
+  /** Overrides the aggregator timeout */
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+}
+
+export interface ClusterHealthOptions {
+  services: ClusterServiceConfig[];
+  /** Probe timeout (default 3s) */
+  timeoutMs?: number;
+  /** Results younger than this are served from cache (default 10s) */
+  cacheTtlMs?: number;
+  /**
+   * Minimum time between `?refresh=true` rounds of the endpoint; forced
+   * requests inside the interval are served from cache (default 5s)
+   */
+  minForceRefreshIntervalMs?: number;
+  /** Background polling interval; polling only runs after start() */
+  pollIntervalMs?: number;
+  /** Weighted score (0-1) below which the cluster is unhealthy (default 0.5) */
+  unhealthyScore?: number;
+}
+
+const STATUS_SCORE: Record<HealthStatus, number> = {
+  healthy: 1,
+  degraded: 0.5,
+  unhealthy: 0,
+};
+
+const HEALTH_STATUSES: ReadonlyArray<string> = ["healthy", "degraded", "unhealthy"];
+
+/**
+ * Cached probe result of one service
+ */
+interface CachedProbe {
+  health: ClusterServiceHealth;
+  fetchedAt: number;
+}
+
+/**
+ * Polls downstream health endpoints and serves a combined report
+ */
+export class ClusterHealthAggregator {
+  private readonly services: ClusterServiceConfig[];
+  private readonly timeoutMs: number;
+  private readonly cacheTtlMs: number;
+  private readonly minForceRefreshIntervalMs: number;
+  private readonly pollIntervalMs?: number;
+  private readonly unhealthyScore: number;
+  private readonly logger: ReturnType<typeof createLogger>;
+  private readonly cache = new Map<string, CachedProbe>();
+  private refreshing?: Promise<void>;
+  private queuedForcedRefresh?: Promise<void>;
+  private lastForcedRefreshAt?: number;
+  private pollTimer?: ReturnType<typeof setInterval>;
+
+  constructor(serviceName: string, options: ClusterHealthOptions) {
+    const names = new Set<string>();
+    for (const service of options.services) {
+      if (names.has(service.name)) {
+        throw new Error(`Duplicate cluster service '${service.name}'`);
+      }
+      names.add(service.name);
+    }
+
+    this.services = options.services;
+    this.timeoutMs = options.timeoutMs ?? 3000;
+    this.cacheTtlMs = options.cacheTtlMs ?? 10_000;
+    this.minForceRefreshIntervalMs = options.minForceRefreshIntervalMs ?? 5000;
+    this.pollIntervalMs = options.pollIntervalMs;
+    this.unhealthyScore = options.unhealthyScore ?? 0.5;
+    this.logger = createLogger(serviceName, { module: "cluster-health" });
+  }
+
+  /**
+   * Start background polling (no-op without pollIntervalMs)
+   */
+  start(): void {
+    if (this.pollIntervalMs === undefined || this.pollTimer !== undefined) return;
+
+    this.pollTimer = setInterval(() => {
+      this.refresh().catch((error) =>
+        this.logger.error("Cluster health poll failed", serializeError(error))
+      );
+    }, this.pollIntervalMs);
+    Deno.unrefTimer(this.pollTimer);
+    void this.refresh();
+  }
+
+  stop(): void {
+    if (this.pollTimer !== undefined) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  /**
+   * Combined report; probes only services whose cached result is stale
+   * (or all of them with `force`)
+   */
+  async getReport(force = false): Promise<ServiceResponse<ClusterHealthResponse>> {
+    await this.refresh(force);
+
+    const now = Date.now();
+    const services: Record<string, ClusterServiceHealth> = {};
+    for (const service of this.services) {
+      const cached = this.cache.get(service.name);
+      if (cached) {
+        services[service.name] = { ...cached.health, cache_age_ms: now - cached.fetchedAt };
+      }
+    }
+
+    const { status, score } = this.aggregate(Object.values(services));
+    return {
+      success: true,
+      data: {
+        status,
+        score: Math.round(score * 1000) / 1000,
+        checked_at: new Date(now).toISOString(),
+        services,
+      },
+    };
+  }
+
+  /**
+   * Oak handler for the combined report; `?refresh=true` bypasses the cache
+   * at most once per `minForceRefreshIntervalMs`, so the endpoint cannot be
+   * used to flood downstream services. Responds 503 when the cluster is
+   * unhealthy.
+   */
+  createEndpoint(): (
+    ctx: { request: { url: URL }; response: { status: number; body: unknown } }
+  ) => Promise<void> {
+    return async (ctx) => {
+      const forceRequested = ctx.request.url.searchParams.get("refresh") === "true";
+      const report = await this.getReport(forceRequested && this.allowForcedRefresh());
+      ctx.response.status = report.data?.status === "unhealthy" ? 503 : 200;
+      ctx.response.body = report;
+    };
+  }
+
+  private allowForcedRefresh(): boolean {
+    const now = Date.now();
+    if (
+      this.lastForcedRefreshAt !== undefined &&
+      now - this.lastForcedRefreshAt < this.minForceRefreshIntervalMs
+    ) {
+      return false;
+    }
+    this.lastForcedRefreshAt = now;
+    return true;
+  }
+
+  /**
+   * Probe stale services in parallel; concurrent callers share one round.
+   * A forced refresh during a round waits for it and then runs one more
+   * forced round (shared by every forced caller that arrived meanwhile),
+   * since the in-flight probes may predate the request.
+   */
+  private refresh(force = false): Promise<void> {
+    if (this.refreshing) {
+      if (!force) return this.refreshing;
+
+      this.queuedForcedRefresh ??= this.refreshing
+        .catch(() => undefined)
+        .then(() => {
+          this.queuedForcedRefresh = undefined;
+          return this.refresh(true);
+        });
+      return this.queuedForcedRefresh;
+    }
+
+    const now = Date.now();
+    const stale = this.services.filter((service) => {
+      const cached = this.cache.get(service.name);
+      return force || !cached || now - cached.fetchedAt >= this.cacheTtlMs;
+    });
+    if (stale.length === 0) return Promise.resolve();
+
+    // One correlation ID per round links the probes in downstream logs
+    const correlationId = getContextCorrelationId() ?? generateCorrelationId();
+    this.refreshing = Promise.all(
+      stale.map(async (service) => {
+        const health = await this.probe(service, correlationId);
+        this.recordResult(service, health);
+      })
+    ).then(() => undefined).finally(() => {
+      this.refreshing = undefined;
+    });
+    return this.refreshing;
+  }
+
+  private async probe(
+    service: ClusterServiceConfig,
+    correlationId: string
+  ): Promise<ClusterServiceHealth> {
+    const critical = service.critical ?? true;
+    const weight = service.weight ?? 1;
+    const timeoutMs = service.timeoutMs ?? this.timeoutMs;
+    const startTime = Date.now();
+    const result = (status: HealthStatus, extra: Partial<ClusterServiceHealth> = {}) => ({
+      status,
+      critical,
+      weight,
+      latency_ms: Date.now() - startTime,
+      checked_at: new Date().toISOString(),
+      ...extra,
+    });
+
+    try {
+      const headers = injectTraceHeaders(
+        addCorrelationHeader(new Headers(service.headers), correlationId)
+      );
+      const response = await fetch(service.url, {
+        headers,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      let body: unknown;
+      try {
+        body = await response.json();
+      } catch {
+        return result("unhealthy", {
+          http_status: response.status,
+          error: "Health endpoint did not return JSON",
+        });
+      }
+
+      const health = parseHealthResponse(body);
+      if (!health) {
+        return result("unhealthy", {
+          http_status: response.status,
+          error: `Unexpected health payload (HTTP ${response.status})`,
+        });
+      }
+      return result(health.status, { http_status: response.status, health });
+    } catch (error) {
+      const timedOut = error instanceof DOMException && error.name === "TimeoutError";
+      return result("unhealthy", {
+        error: timedOut
+          ? `Health probe timed out after ${timeoutMs}ms`
+          : error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Cache a probe result and log status changes
+   */
+  private recordResult(service: ClusterServiceConfig, health: ClusterServiceHealth): void {
+    const previous = this.cache.get(service.name)?.health.status;
+    this.cache.set(service.name, { health, fetchedAt: Date.now() });
+
+    if (previous === health.status) return;
+    const metadata = {
+      downstream_service: service.name,
+      downstream_status: health.status,
+      previous_status: previous ?? "unknown",
+      critical: health.critical,
+      latency_ms: health.latency_ms,
+      error_message: health.error,
+    };
+    if (health.status === "healthy") {
+      this.logger.info("Downstream service status changed", metadata);
+    } else {
+      this.logger.warn("Downstream service status changed", metadata);
+    }
+  }
+
+  private aggregate(services: ClusterServiceHealth[]): { status: HealthStatus; score: number } {
+    const totalWeight = services.reduce((sum, service) => sum + service.weight, 0);
+    const score = totalWeight > 0
+      ? services.reduce((sum, service) => sum + service.weight * STATUS_SCORE[service.status], 0) /
+        totalWeight
+      : 1;
+
+    if (services.some((service) => service.critical && service.status === "unhealthy")) {
+      return { status: "unhealthy", score };
+    }
+    if (score < this.unhealthyScore) {
+      return { status: "unhealthy", score };
+    }
+    if (services.some((service) => service.status !== "healthy")) {
+      return { status: "degraded", score };
+    }
+    return { status: "healthy", score };
+  }
+}
+
+/**
+ * Extract EnhancedHealthResponse from a ServiceResponse payload
+ */
+function parseHealthResponse(body: unknown): EnhancedHealthResponse | undefined {
+  if (typeof body !== "object" || body === null) return undefined;
+
+  const { success, data } = body as { success?: unknown; data?: unknown };
+  if (success !== true || typeof data !== "object" || data === null) return undefined;
+
+  const { status } = data as { status?: unknown };
+  if (typeof status !== "string" || !HEALTH_STATUSES.includes(status)) return undefined;
+
+  return data as EnhancedHealthResponse;
+}
+
+/**
+ * Create a cluster health aggregator for a gateway service
+ */
+export function createClusterHealthAggregator(
+  serviceName: string,
+  options: ClusterHealthOptions
+): ClusterHealthAggregator {
+  return new ClusterHealthAggregator(serviceName, options);
+}
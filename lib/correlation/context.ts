@@ -0,0 +1,140 @@
+/**
+ * Async-context log enrichment
+ *
+ * Stores the correlation ID, request ID, user ID, trace/span IDs and
+ * document context for the current async call chain (via
+ * AsyncLocalStorage). Every createLogger instance merges these values into
+ * each entry, so functions no longer need a `correlation_id` parameter just
+ * to log it.
+ *
+ * Middleware populates the context per request; background jobs and queue
+ * consumers call runWithContext() explicitly.
+ *
+ * Explicit metadata passed to a log call always wins over context values.
+ *
+ * @example Background job
+ * ```typescript
+ * await runWithContext(
+ *   { correlation_id: job.correlationId, metadata: { job_id: job.id } },
+ *   async () => {
+ *     logger.info("Job started"); // carries correlation_id and job_id
+ *     await processJob(job);
+ *   },
+ * );
+ * ```
+ *
+ * @example Attach a document once it is known
+ * ```typescript
+ * updateContext({ document: createDocumentContext(urlHash, url) });
+ * logger.info("PDF processing started"); // carries url_hash and original_url
+ * ```
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { FlatLogMetadata } from "../types.ts";
+import type { DocumentContext } from "../logging/document-context.ts";
+
+/**
+ * Values carried through an async call chain
+ */
+export interface RequestContext {
+  correlation_id?: string;
+  request_id?: string;
+  user_id?: string;
+  document?: DocumentContext;
+  /** W3C trace of the active span (see trace-context.ts and tracing/) */
+  trace_id?: string;
+  span_id?: string;
+  trace_flags?: number;
+  trace_state?: string;
+  /** Extra flat fields added to every log entry (e.g. job_id) */
+  metadata?: FlatLogMetadata;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `fn` with `context` merged over the current context (if any)
+ *
+ * @returns Whatever `fn` returns
+ */
+export function runWithContext<T>(context: RequestContext, fn: () => T): T {
+  const parent = storage.getStore();
+  const merged: RequestContext = parent
+    ? {
+      ...parent,
+      ...context,
+      metadata: { ...parent.metadata, ...context.metadata },
+    }
+    : { ...context };
+
+  return storage.run(merged, fn);
+}
+
+/**
+ * The context of the current async call chain, if any
+ */
+export function getContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Correlation ID of the current context, if any
+ */
+export function getContextCorrelationId(): string | undefined {
+  return storage.getStore()?.correlation_id;
+}
+
+/**
+ * Update the current context in place (e.g. set user_id after auth).
+ * Has no effect outside runWithContext.
+ *
+ * @returns true if a context was active and updated
+ */
+export function updateContext(values: RequestContext): boolean {
+  const store = storage.getStore();
+  if (!store) {
+    return false;
+  }
+
+  const { metadata, ...rest } = values;
+  Object.assign(store, rest);
+  if (metadata) {
+    store.metadata = { ...store.metadata, ...metadata };
+  }
+  return true;
+}
+
+/**
+ * Flat log fields for the current context (empty outside a context)
+ */
+export function getContextLogMetadata(): FlatLogMetadata {
+  const store = storage.getStore();
+  if (!store) {
+    return {};
+  }
+
+  const fields: FlatLogMetadata = { ...store.metadata };
+
+  if (store.correlation_id !== undefined) {
+    fields.correlation_id = store.correlation_id;
+  }
+  if (store.request_id !== undefined) {
+    fields.request_id = store.request_id;
+  }
+  if (store.user_id !== undefined) {
+    fields.user_id = store.user_id;
+  }
+  if (store.trace_id !== undefined) {
+    fields.trace_id = store.trace_id;
+  }
+  if (store.span_id !== undefined) {
+    fields.span_id = store.span_id;
+  }
+  if (store.document !== undefined) {
+    fields.url_hash = store.document.url_hash;
+    fields.original_url = store.document.original_url;
+  }
+
+  return fields;
+}
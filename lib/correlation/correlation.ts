@@ -9,7 +9,8 @@
  * - correlation_id is ALWAYS a string, never optional
  * - Entry points generate new IDs if not provided
  * - Middleware extracts or generates IDs
- * - All functions require correlation_id as a parameter
+ * - Functions either take correlation_id as a parameter or read it from the
+ *   async context (see context.ts), which loggers merge automatically
  * - IDs live ONLY in logs, not in database
  *
  * @example Entry point (API route)
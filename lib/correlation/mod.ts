@@ -2,7 +2,11 @@
  * Correlation ID utilities
  *
  * Provides utilities for distributed tracing across microservices using
- * correlation IDs passed via HTTP headers.
+ * correlation IDs and W3C traceparent/tracestate passed via HTTP headers,
+ * and an async context that carries them to every logger without
+ * threading parameters.
  */
 
 export * from './correlation.ts';
+export * from './context.ts';
+export * from './trace-context.ts';
@@ -0,0 +1,152 @@
+/**
+ * W3C Trace Context (`traceparent` / `tracestate`) propagation
+ *
+ * Works alongside X-Correlation-ID: the correlation ID stays the
+ * human-facing handle for Seq queries, while trace/span IDs link our logs
+ * and spans to standard distributed tracing backends (Tempo, Jaeger, ...).
+ *
+ * traceparent format: `00-<32 hex trace-id>-<16 hex parent-id>-<2 hex flags>`
+ *
+ * @example Continue an upstream trace
+ * ```typescript
+ * const parent = extractW3CTraceContext(req.headers); // undefined if absent/invalid
+ * await withSpan("process_document", { kind: "server", parent }, async () => {
+ *   logger.info("Processing"); // carries trace_id and span_id
+ *   await fetch(url, { headers: injectTraceHeaders(new Headers()) });
+ * });
+ * ```
+ */
+
+import { getContext } from "./context.ts";
+
+export const TRACEPARENT_HEADER = "traceparent";
+export const TRACESTATE_HEADER = "tracestate";
+
+/** traceparent flag bit marking a sampled trace */
+export const TRACE_FLAG_SAMPLED = 0x01;
+
+/**
+ * Propagated trace identity
+ */
+export interface TraceContext {
+  /** 32 lowercase hex chars */
+  traceId: string;
+  /** 16 lowercase hex chars; the span that made the call */
+  spanId: string;
+  traceFlags: number;
+  /** Vendor-specific tracestate list, passed through unchanged */
+  traceState?: string;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+function randomHex(bytes: number): string {
+  const buffer = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(buffer, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Generate a random, valid 16-byte trace ID
+ */
+export function generateTraceId(): string {
+  let id = randomHex(16);
+  while (id === INVALID_TRACE_ID) id = randomHex(16);
+  return id;
+}
+
+/**
+ * Generate a random, valid 8-byte span ID
+ */
+export function generateSpanId(): string {
+  let id = randomHex(8);
+  while (id === INVALID_SPAN_ID) id = randomHex(8);
+  return id;
+}
+
+/**
+ * Parse a traceparent header value
+ *
+ * @returns The context, or undefined for malformed or all-zero IDs
+ */
+export function parseTraceparent(value: string): TraceContext | undefined {
+  const match = TRACEPARENT_PATTERN.exec(value.trim().toLowerCase());
+  if (!match) return undefined;
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is invalid; version 00 must not carry extra fields
+  if (version === "ff" || (version === "00" && rest !== undefined)) {
+    return undefined;
+  }
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+    return undefined;
+  }
+
+  return { traceId, spanId, traceFlags: parseInt(flags, 16) };
+}
+
+/**
+ * Format a traceparent header value (version 00)
+ */
+export function formatTraceparent(context: TraceContext): string {
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, "0");
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Extract the upstream trace context from traceparent/tracestate headers
+ *
+ * @returns undefined when the request does not carry a valid traceparent
+ */
+export function extractW3CTraceContext(headers: Headers): TraceContext | undefined {
+  const traceparent = headers.get(TRACEPARENT_HEADER);
+  if (!traceparent) return undefined;
+
+  const context = parseTraceparent(traceparent);
+  if (!context) return undefined;
+
+  const traceState = headers.get(TRACESTATE_HEADER);
+  if (traceState) {
+    context.traceState = traceState;
+  }
+  return context;
+}
+
+/**
+ * Trace context of the current async context (the active span), if any
+ */
+export function getActiveTraceContext(): TraceContext | undefined {
+  const context = getContext();
+  if (!context?.trace_id || !context.span_id) return undefined;
+
+  const traceContext: TraceContext = {
+    traceId: context.trace_id,
+    spanId: context.span_id,
+    traceFlags: context.trace_flags ?? TRACE_FLAG_SAMPLED,
+  };
+  if (context.trace_state) {
+    traceContext.traceState = context.trace_state;
+  }
+  return traceContext;
+}
+
+/**
+ * Add traceparent/tracestate for a downstream call
+ *
+ * Creates a NEW Headers object (like addCorrelationHeader). Defaults to the
+ * active span; returns a plain copy when there is no trace context.
+ */
+export function injectTraceHeaders(
+  headers: Headers,
+  context: TraceContext | undefined = getActiveTraceContext()
+): Headers {
+  const newHeaders = new Headers(headers);
+  if (!context) return newHeaders;
+
+  newHeaders.set(TRACEPARENT_HEADER, formatTraceparent(context));
+  if (context.traceState) {
+    newHeaders.set(TRACESTATE_HEADER, context.traceState);
+  }
+  return newHeaders;
+}
@@ -1,6 +1,10 @@
 import path from "node:path";
 import { createLogger } from "../logger.ts";
-import { assertApiKey } from "../utilities.ts";
+import { assertApiKey, readIntegerEnv } from "../utilities.ts";
+import { getErrorMessage } from "../logging/serializers.ts";
+import { recordProviderError, recordProviderUsage } from "../provider-metrics.ts";
+import { CircuitOpenError, getCircuitBreaker } from "../circuit-breaker.ts";
+import { BulkheadRejectedError, getBulkhead } from "../bulkhead.ts";
 
 const BASE_URL = "http://firecrawl-service:5001/";
 
@@ -9,7 +13,24 @@ const FIRECRAWL_API_KEY = assertApiKey(
   "FIRECRAWL_API_KEY"
 );
 
+const FIRECRAWL_MAX_CONCURRENT_REQUESTS = readIntegerEnv(
+  "FIRECRAWL_MAX_CONCURRENT_REQUESTS",
+  10
+);
+const FIRECRAWL_MAX_QUEUED_REQUESTS = readIntegerEnv(
+  "FIRECRAWL_MAX_QUEUED_REQUESTS",
+  100,
+  0
+);
+
 // --- Types ---
+interface FirecrawlRequestOptions {
+  /** Higher priority scrapes leave the concurrency queue first */
+  priority?: number;
+  /** Cancels the scrape while queued or in flight */
+  signal?: AbortSignal;
+}
+
 interface FirecrawlScrapeRequest {
   url: string;
   formats?: string[];
@@ -58,7 +79,11 @@ interface FirecrawlScrapeResponse {
 }
 
 // --- Logger ---
-const logger = createLogger("firecrawl-service", { module: "firecrawl" });
+// Provider error payloads are objects; flatten rather than throw
+const logger = createLogger("firecrawl-service", {
+  module: "firecrawl",
+  flattenMetadata: true,
+});
 
 // --- Pure helpers ---
 const buildFirecrawlRequestBody = (req: FirecrawlScrapeRequest): string =>
@@ -95,7 +120,32 @@ const isFirecrawlSuccess = (res: FirecrawlScrapeResponse): boolean =>
 // --- Main function ---
 async function firecrawlScrape(
   req: FirecrawlScrapeRequest,
-  endpoint = path.join(BASE_URL, "api/v1/firecrawl/scrape")
+  endpoint = path.join(BASE_URL, "api/v1/firecrawl/scrape"),
+  options: FirecrawlRequestOptions = {}
+): Promise<FirecrawlScrapeResponse> {
+  const startTime = Date.now();
+  const result = await scrape(req, endpoint, options);
+  const durationMs = Date.now() - startTime;
+
+  // Firecrawl has no models; "scrape" keeps the provider series uniform
+  if (result.success) {
+    recordProviderUsage("firecrawl", "scrape", { durationMs });
+  } else {
+    recordProviderError(
+      "firecrawl",
+      "scrape",
+      result.error?.code ?? "UNKNOWN",
+      durationMs
+    );
+  }
+
+  return result;
+}
+
+async function scrape(
+  req: FirecrawlScrapeRequest,
+  endpoint: string,
+  options: FirecrawlRequestOptions
 ): Promise<FirecrawlScrapeResponse> {
   logger.info("Firecrawl scrape request", {
     url: req.url,
@@ -106,16 +156,48 @@ async function firecrawlScrape(
 
   let res: Response;
   try {
-    res = await fetch(endpoint, {
-      method: "POST",
-      headers,
-      body,
+    const bulkhead = getBulkhead("firecrawl", {
+      maxConcurrent: FIRECRAWL_MAX_CONCURRENT_REQUESTS,
+      maxQueued: FIRECRAWL_MAX_QUEUED_REQUESTS,
     });
+    res = await bulkhead.run(
+      () =>
+        getCircuitBreaker("firecrawl").execute(
+          () =>
+            fetch(endpoint, {
+              method: "POST",
+              headers,
+              body,
+              signal: options.signal,
+            }),
+          {
+            isFailureResult: (response) => response.status >= 500,
+            signal: options.signal,
+          }
+        ),
+      options
+    );
   } catch (err) {
+    if (err instanceof BulkheadRejectedError) {
+      return {
+        success: false,
+        error: { code: "CONCURRENCY_LIMIT", message: err.message },
+      };
+    }
+    if (err instanceof CircuitOpenError) {
+      logger.warn("Firecrawl circuit open, skipping request", {
+        url: req.url,
+        retry_after_ms: err.retryAfterMs,
+      });
+      return {
+        success: false,
+        error: { code: "CIRCUIT_OPEN", message: err.message },
+      };
+    }
     logger.error("Firecrawl fetch failed", { error: err });
     return {
       success: false,
-      error: { code: "FETCH_ERROR", message: String(err) },
+      error: { code: "FETCH_ERROR", message: getErrorMessage(err) },
     };
   }
 
@@ -160,6 +242,7 @@ async function firecrawlScrape(
 
 export { firecrawlScrape };
 export type {
+  FirecrawlRequestOptions,
   FirecrawlScrapeRequest,
   FirecrawlScrapeResponse,
   FirecrawlScrapeResponseData,
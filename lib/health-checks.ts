@@ -0,0 +1,159 @@
+/**
+ * Dependency health checks for readiness probes
+ *
+ * A check is an async function bounded by a timeout. It resolves when the
+ * dependency is usable, throws when it is not, or returns an explicit
+ * result (e.g. "degraded" with details). Critical dependencies make the
+ * service unready when they fail; non-critical ones only degrade it.
+ *
+ * Register checks on HealthMiddleware and expose `/health/ready`
+ * (dependencies) separately from `/health/live` (process only), so an
+ * unreachable dependency takes the pod out of rotation without restarting it.
+ *
+ * @example
+ * ```typescript
+ * health.registerDependency(createSqliteHealthCheck(db));
+ * health.registerDependency(createHttpHealthCheck({
+ *   name: "firecrawl",
+ *   url: `${FIRECRAWL_URL}/health`,
+ *   critical: false,
+ * }));
+ * health.registerDependency(createLangfuseHealthCheck({ critical: false }));
+ *
+ * router.get("/health/live", health.createLivenessEndpoint());
+ * router.get("/health/ready", health.createReadinessEndpoint());
+ * ```
+ */
+
+import type { DependencyHealth, HealthStatus } from "./types.ts";
+
+const DEFAULT_CHECK_TIMEOUT_MS = 2000;
+
+export interface DependencyCheckResult {
+  status: HealthStatus;
+  message?: string;
+  details?: Record<string, string | number | boolean>;
+}
+
+export interface DependencyCheck {
+  name: string;
+  /** Failure makes the service unready (default true); otherwise degraded */
+  critical?: boolean;
+  /** Check is reported unhealthy after this long (default 2s) */
+  timeoutMs?: number;
+  /** Resolve (or return a result) when healthy; throw when not */
+  check: (signal: AbortSignal) => Promise<DependencyCheckResult | void>;
+}
+
+export interface HttpHealthCheckOptions {
+  name: string;
+  url: string;
+  critical?: boolean;
+  timeoutMs?: number;
+  method?: string;
+  headers?: Record<string, string>;
+  /** Healthy statuses (default 2xx and 3xx) */
+  isHealthyStatus?: (status: number) => boolean;
+}
+
+/**
+ * Run one check with its timeout and measure latency. Never throws.
+ */
+export async function runDependencyCheck(
+  dependency: DependencyCheck
+): Promise<DependencyHealth> {
+  const critical = dependency.critical ?? true;
+  const timeoutMs = dependency.timeoutMs ?? DEFAULT_CHECK_TIMEOUT_MS;
+  const controller = new AbortController();
+  const startTime = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      // Reject before aborting so a check that settles on abort loses the race
+      reject(new Error(`Health check timed out after ${timeoutMs}ms`));
+      controller.abort();
+    }, timeoutMs);
+  });
+
+  let result: DependencyCheckResult;
+  try {
+    result = (await Promise.race([dependency.check(controller.signal), timeout])) ??
+      { status: "healthy" };
+  } catch (error) {
+    result = {
+      status: "unhealthy",
+      message: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const health: DependencyHealth = {
+    status: result.status,
+    critical,
+    latency_ms: Date.now() - startTime,
+    checked_at: new Date().toISOString(),
+  };
+  if (result.message !== undefined) {
+    health.message = result.message;
+  }
+  if (result.details !== undefined) {
+    health.details = result.details;
+  }
+  return health;
+}
+
+/**
+ * Overall status from dependency results: any failed critical dependency
+ * is unhealthy; failed non-critical or degraded dependencies are degraded
+ */
+export function aggregateDependencyStatus(
+  dependencies: Record<string, DependencyHealth>
+): HealthStatus {
+  let status: HealthStatus = "healthy";
+
+  for (const dependency of Object.values(dependencies)) {
+    if (dependency.status === "unhealthy" && dependency.critical) {
+      return "unhealthy";
+    }
+    if (dependency.status !== "healthy") {
+      status = "degraded";
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Check an HTTP dependency by requesting a health or base URL
+ */
+export function createHttpHealthCheck(
+  options: HttpHealthCheckOptions
+): DependencyCheck {
+  const {
+    name,
+    url,
+    method = "GET",
+    headers,
+    isHealthyStatus = (status: number) => status >= 200 && status < 400,
+  } = options;
+
+  return {
+    name,
+    critical: options.critical,
+    timeoutMs: options.timeoutMs,
+    check: async (signal) => {
+      const response = await fetch(url, { method, headers, signal });
+      await response.body?.cancel();
+
+      if (!isHealthyStatus(response.status)) {
+        throw new Error(`HTTP ${response.status} from ${url}`);
+      }
+      return {
+        status: "healthy",
+        details: { http_status: response.status },
+      };
+    },
+  };
+}
@@ -1,60 +1,256 @@
 import { createLogger } from "./logger.ts";
-import type { ServiceResponse, HealthStatus, EnhancedHealthResponse } from "./types.ts";
+import type {
+  DependencyHealth,
+  EnhancedHealthResponse,
+  HealthHistoryResponse,
+  HealthSnapshot,
+  HealthStatus,
+  LivenessResponse,
+  RouteHealth,
+  ServiceResponse,
+  StatusTransition,
+} from "./types.ts";
+import {
+  aggregateDependencyStatus,
+  type DependencyCheck,
+  runDependencyCheck,
+} from "./health-checks.ts";
+import {
+  type Counter,
+  type Gauge,
+  getMetricsRegistry,
+  type Histogram,
+  type MetricsRegistry,
+  PROMETHEUS_CONTENT_TYPE,
+} from "./metrics.ts";
+import { SlidingWindowStats, type WindowSnapshot } from "./sliding-window.ts";
+import { type SloDefinition, SloTracker, type SloTrackerOptions } from "./slo.ts";
+import { serializeError } from "./logging/serializers.ts";
+
+/** Round to 2 decimal places for health payloads */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Minimal Oak context shape used by the probe endpoints
+ */
+interface ProbeContext {
+  response: { status: number; body: unknown };
+}
+
+/**
+ * Limits used to derive the health status from the sliding window
+ */
+export interface HealthThresholds {
+  /** Success rate (%) below which the service is degraded */
+  degradedSuccessRate: number;
+  /** Success rate (%) below which the service is unhealthy */
+  unhealthySuccessRate: number;
+  /** Latency (ms) above which the service is degraded */
+  degradedLatencyMs: number;
+  /** Latency (ms) above which the service is unhealthy */
+  unhealthyLatencyMs: number;
+  /** Latency statistic compared against the latency limits */
+  latencyStatistic: "avg" | "p50" | "p95" | "p99";
+  /** Requests needed in the window before the success rate counts */
+  minRequests: number;
+}
+
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  degradedSuccessRate: 95,
+  unhealthySuccessRate: 90,
+  degradedLatencyMs: 500,
+  unhealthyLatencyMs: 2000,
+  latencyStatistic: "avg",
+  minRequests: 1,
+};
 
 /**
- * Response time measurement for percentile calculations
+ * Route details for per-route request metrics
  */
-interface ResponseTimeEntry {
-  timestamp: number;
-  responseTime: number;
-  success: boolean;
+export interface RouteRequest {
+  /** Matched route template ("/documents/:id"), never the raw path */
+  route: string;
+  method: string;
+  /** HTTP status; grouped into status classes (2xx, 4xx, ...) */
+  status: number;
+}
+
+/** Route key used once maxRoutes distinct routes are tracked */
+const OVERFLOW_ROUTE = "other";
+
+interface RouteStats {
+  route: string;
+  method: string;
+  window: SlidingWindowStats;
+  statusClasses: Record<string, number>;
+}
+
+/**
+ * Persistent store for health history (see createSqliteHealthHistory)
+ */
+export interface HealthHistory {
+  /** A process (HealthMiddleware) started */
+  recordStart(startedAt: number): void;
+  /** Periodic snapshot; also the liveness heartbeat of the current process */
+  recordSnapshot(snapshot: HealthSnapshot): void;
+  recordTransition(transition: StatusTransition): void;
+  /** Share of time since `since` covered by running processes (0-100) */
+  getUptimePercentage(since: number, now?: number): number;
+  /** Oldest first, at most `limit` (the most recent ones) */
+  getTransitions(since: number, limit: number): StatusTransition[];
+  getSnapshots(since: number, limit: number): HealthSnapshot[];
+}
+
+const DEFAULT_HISTORY_QUERY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_HISTORY_LIMIT = 500;
+const MAX_HISTORY_LIMIT = 5000;
+
+export interface HealthMiddlewareOptions {
+  /** Registry for the published request metrics (default: shared registry) */
+  metricsRegistry?: MetricsRegistry;
+  /** Overrides for DEFAULT_HEALTH_THRESHOLDS */
+  thresholds?: Partial<HealthThresholds>;
+  /** Window for success rate and latency (default 5 minutes) */
+  windowMs?: number;
+  /** Distinct method+route pairs tracked before grouping into "other" (default 200) */
+  maxRoutes?: number;
+  /** SLOs tracked over rolling windows and reported under `slos` */
+  slos?: SloDefinition[];
+  /** Burn-rate alert settings for the SLOs */
+  sloOptions?: SloTrackerOptions;
+  /** Persist snapshots and status transitions; enables real uptime_percentage */
+  history?: HealthHistory;
+  /** Interval between persisted snapshots (default 60s) */
+  heartbeatIntervalMs?: number;
+  /** Period uptime_percentage covers (default 30 days) */
+  uptimeWindowMs?: number;
 }
 
 /**
  * Health tracking middleware for Deno services
- * Tracks uptime, response times, and success rates in memory
+ * Tracks uptime, plus success rate and latency over a sliding window, in
+ * memory, and publishes
+ * them as Prometheus metrics (service_requests_total,
+ * service_request_success_ratio, service_request_duration_seconds,
+ * service_uptime_seconds) labelled by service
  */
 export class HealthMiddleware {
   private serviceName: string;
   private startTime: number;
   private logger: ReturnType<typeof createLogger>;
-  private responseTimes: ResponseTimeEntry[] = [];
+  private readonly window: SlidingWindowStats;
+  private readonly thresholds: HealthThresholds;
   private totalRequests = 0;
   private successfulRequests = 0;
-  private readonly maxResponseTimeEntries = 1000; // Keep last 1000 entries for percentiles
-  private readonly responseTimeWindowMs = 5 * 60 * 1000; // 5 minutes
+  private readonly metricsRegistry: MetricsRegistry;
+  private readonly requestsCounter: Counter;
+  private readonly successRatioGauge: Gauge;
+  private readonly uptimeGauge: Gauge;
+  private readonly durationHistogram: Histogram;
+  private readonly routeRequestsCounter: Counter;
+  private readonly routeDurationHistogram: Histogram;
+  private readonly routes = new Map<string, RouteStats>();
+  private readonly maxRoutes: number;
+  private readonly sloTracker?: SloTracker;
+  private readonly history?: HealthHistory;
+  private readonly uptimeWindowMs: number;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private lastStatus?: HealthStatus;
+  private readonly dependencies = new Map<string, DependencyCheck>();
+  private readonly dependencyStatuses = new Map<string, HealthStatus>();
 
-  constructor(serviceName: string) {
+  constructor(serviceName: string, options: HealthMiddlewareOptions = {}) {
     this.serviceName = serviceName;
     this.startTime = Date.now();
     this.logger = createLogger(serviceName, { module: "health-middleware" });
+    this.window = new SlidingWindowStats({ windowMs: options.windowMs });
+    this.thresholds = { ...DEFAULT_HEALTH_THRESHOLDS, ...options.thresholds };
+    this.maxRoutes = options.maxRoutes ?? 200;
+    if (options.slos && options.slos.length > 0) {
+      this.sloTracker = new SloTracker(serviceName, options.slos, options.sloOptions);
+    }
+    this.history = options.history;
+    this.uptimeWindowMs = options.uptimeWindowMs ?? 30 * 24 * 60 * 60 * 1000;
+
+    this.metricsRegistry = options.metricsRegistry ?? getMetricsRegistry();
+    this.requestsCounter = this.metricsRegistry.counter(
+      "service_requests_total",
+      "Requests recorded by HealthMiddleware",
+      ["service", "outcome"]
+    );
+    this.successRatioGauge = this.metricsRegistry.gauge(
+      "service_request_success_ratio",
+      "Share of successful requests in the health window (0-1)",
+      ["service"]
+    );
+    this.uptimeGauge = this.metricsRegistry.gauge(
+      "service_uptime_seconds",
+      "Seconds since the service (or its health tracking) started",
+      ["service"]
+    );
+    this.durationHistogram = this.metricsRegistry.histogram(
+      "service_request_duration_seconds",
+      "Request duration recorded by HealthMiddleware",
+      ["service"]
+    );
+    this.routeRequestsCounter = this.metricsRegistry.counter(
+      "service_route_requests_total",
+      "Requests per route template and status class",
+      ["service", "method", "route", "status_class"]
+    );
+    this.routeDurationHistogram = this.metricsRegistry.histogram(
+      "service_route_request_duration_seconds",
+      "Request duration per route template",
+      ["service", "method", "route"]
+    );
+    this.metricsRegistry.onCollect(() => {
+      const labels = { service: this.serviceName };
+      this.uptimeGauge.set((Date.now() - this.startTime) / 1000, labels);
+      this.successRatioGauge.set(this.window.snapshot().successRate / 100, labels);
+    });
+    if (this.sloTracker) {
+      this.registerSloMetrics(this.sloTracker);
+    }
     
     this.logger.info("Health middleware initialized", {
       service: serviceName,
       start_time: new Date(this.startTime).toISOString(),
+      window_seconds: this.window.windowMs / 1000,
+      history_enabled: this.history !== undefined,
+      degraded_success_rate: this.thresholds.degradedSuccessRate,
+      unhealthy_success_rate: this.thresholds.unhealthySuccessRate,
+      degraded_latency_ms: this.thresholds.degradedLatencyMs,
+      unhealthy_latency_ms: this.thresholds.unhealthyLatencyMs,
+      latency_statistic: this.thresholds.latencyStatistic,
     });
+
+    if (this.history) {
+      this.startHistory(this.history, options.heartbeatIntervalMs ?? 60_000);
+    }
   }
 
   /**
-   * Record a request and its outcome for metrics calculation
+   * Record a request and its outcome for metrics calculation; pass `route`
+   * to also track it per route template
    */
-  recordRequest(responseTimeMs: number, success: boolean): void {
-    const now = Date.now();
-    
+  recordRequest(responseTimeMs: number, success: boolean, route?: RouteRequest): void {
     this.totalRequests++;
     if (success) {
       this.successfulRequests++;
     }
 
-    // Add to response times array
-    this.responseTimes.push({
-      timestamp: now,
-      responseTime: responseTimeMs,
-      success,
-    });
+    this.window.record(responseTimeMs, success);
+    this.sloTracker?.record(responseTimeMs, success);
 
-    // Keep only recent entries and limit array size
-    this.cleanupResponseTimes(now);
+    const labels = { service: this.serviceName };
+    this.requestsCounter.inc({ ...labels, outcome: success ? "success" : "failure" });
+    this.durationHistogram.observe(responseTimeMs / 1000, labels);
+
+    if (route) {
+      this.recordRouteRequest(responseTimeMs, success, route);
+    }
 
     this.logger.trace("Request recorded", {
       response_time_ms: responseTimeMs,
@@ -70,39 +266,42 @@ export class HealthMiddleware {
   getHealthStatus(serviceSpecific?: Record<string, string | number | boolean>): ServiceResponse<EnhancedHealthResponse> {
     const now = Date.now();
     const uptimeSeconds = Math.floor((now - this.startTime) / 1000);
-    const uptimePercentage = 100; // Service is running, so it's 100% uptime since start
-    
-    // Calculate response time metrics
-    const recentResponseTimes = this.getRecentResponseTimes(now);
-    const avgResponseTime = this.calculateAverageResponseTime(recentResponseTimes);
-    const p95ResponseTime = this.calculatePercentile(recentResponseTimes, 95);
+    const uptimePercentage = this.getUptimePercentage(now);
     
-    // Calculate success rate
-    const successRate = this.totalRequests > 0 
-      ? (this.successfulRequests / this.totalRequests) * 100 
-      : 100;
-
-    // Determine health status based on success rate and response times
-    const status = this.determineHealthStatus(successRate, avgResponseTime);
+    // Success rate and latency share the same sliding window
+    const window = this.window.snapshot(now);
+    const status = this.determineHealthStatus(window);
+    this.trackStatus(status, now);
 
     const healthData: EnhancedHealthResponse = {
       status,
       uptime_percentage: uptimePercentage,
       uptime_seconds: uptimeSeconds,
-      response_time_avg_ms: Math.round(avgResponseTime * 100) / 100, // Round to 2 decimal places
-      response_time_p95_ms: Math.round(p95ResponseTime * 100) / 100,
+      response_time_avg_ms: round(window.avg),
+      response_time_p50_ms: round(window.p50),
+      response_time_p95_ms: round(window.p95),
+      response_time_p99_ms: round(window.p99),
       requests_total: this.totalRequests,
       requests_successful: this.successfulRequests,
-      success_rate_percentage: Math.round(successRate * 100) / 100,
+      requests_in_window: window.count,
+      window_seconds: this.window.windowMs / 1000,
+      success_rate_percentage: round(window.successRate),
       last_restart: new Date(this.startTime).toISOString(),
       service_specific: serviceSpecific,
     };
+    if (this.routes.size > 0) {
+      healthData.routes = this.getRouteHealth(now);
+    }
+    if (this.sloTracker) {
+      healthData.slos = this.sloTracker.getStatus(now);
+    }
 
     this.logger.debug("Health status requested", {
       status,
       uptime_seconds: uptimeSeconds,
-      success_rate: successRate,
-      avg_response_time: avgResponseTime,
+      success_rate: window.successRate,
+      avg_response_time: window.avg,
+      p99_response_time: window.p99,
       total_requests: this.totalRequests,
     });
 
@@ -113,99 +312,454 @@ export class HealthMiddleware {
   }
 
   /**
-   * Create a middleware function that can be used with Oak router
+   * Register a dependency checked by readiness probes (replaces one with
+   * the same name)
    */
-  createHealthEndpoint(): (ctx: any) => Promise<void> {
-    return async (ctx: any) => {
-      const startTime = Date.now();
+  registerDependency(dependency: DependencyCheck): void {
+    this.dependencies.set(dependency.name, dependency);
+  }
+
+  unregisterDependency(name: string): void {
+    this.dependencies.delete(name);
+    this.dependencyStatuses.delete(name);
+  }
+
+  /**
+   * Run every registered dependency check in parallel
+   */
+  async checkDependencies(): Promise<Record<string, DependencyHealth>> {
+    const entries = await Promise.all(
+      [...this.dependencies.values()].map(async (dependency) =>
+        [dependency.name, await runDependencyCheck(dependency)] as const
+      )
+    );
+
+    for (const [name, health] of entries) {
+      const previous = this.dependencyStatuses.get(name);
+      if (previous !== health.status) {
+        const metadata = {
+          dependency: name,
+          dependency_status: health.status,
+          previous_status: previous ?? "unknown",
+          critical: health.critical,
+          latency_ms: health.latency_ms,
+          error_message: health.message,
+        };
+        if (health.status === "healthy") {
+          this.logger.info("Dependency status changed", metadata);
+        } else {
+          this.logger.warn("Dependency status changed", metadata);
+        }
+        this.dependencyStatuses.set(name, health.status);
+      }
+    }
+
+    return Object.fromEntries(entries);
+  }
+
+  /**
+   * Liveness: the process is running; never checks dependencies, so a
+   * dependency outage does not trigger restarts
+   */
+  getLivenessStatus(): ServiceResponse<LivenessResponse> {
+    return {
+      success: true,
+      data: {
+        status: "healthy",
+        uptime_seconds: Math.floor((Date.now() - this.startTime) / 1000),
+        last_restart: new Date(this.startTime).toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Readiness: the status comes from the dependency checks only, so a burst
+   * of failed or slow requests does not pull the instance out of rotation.
+   * Request metrics are still included for context.
+   */
+  async getReadinessStatus(
+    serviceSpecific?: Record<string, string | number | boolean>
+  ): Promise<ServiceResponse<EnhancedHealthResponse>> {
+    const health = this.getHealthStatus(serviceSpecific);
+    if (!health.data) {
+      return health;
+    }
+
+    const dependencies = await this.checkDependencies();
+
+    return {
+      success: true,
+      data: {
+        ...health.data,
+        status: aggregateDependencyStatus(dependencies),
+        dependencies,
+      },
+    };
+  }
+
+  /**
+   * Oak handler for /health/live
+   */
+  createLivenessEndpoint(): (ctx: ProbeContext) => void {
+    return (ctx) => {
+      ctx.response.body = this.getLivenessStatus();
+    };
+  }
+
+  /**
+   * Oak handler for /health/ready; responds 503 when unhealthy so load
+   * balancers stop routing traffic
+   */
+  createReadinessEndpoint(
+    serviceSpecific?: () => Record<string, string | number | boolean>
+  ): (ctx: ProbeContext) => Promise<void> {
+    return async (ctx) => {
+      const readiness = await this.getReadinessStatus(serviceSpecific?.());
+      ctx.response.status = readiness.data?.status === "unhealthy" ? 503 : 200;
+      ctx.response.body = readiness;
+    };
+  }
+
+  /**
+   * Framework-neutral health check: returns the status code and body to
+   * send. Probes are not recorded as requests, so frequent health checks
+   * do not inflate success rates, latency percentiles or SLO budgets.
+   */
+  respondToHealthCheck(): { status: number; body: ServiceResponse<EnhancedHealthResponse> } {
+    const startTime = Date.now();
+    
+    try {
+      const healthResponse = this.getHealthStatus();
       
-      try {
-        // Record this health check request
-        const responseTime = Date.now() - startTime;
-        this.recordRequest(responseTime, true);
-        
-        const healthResponse = this.getHealthStatus();
-        ctx.response.body = healthResponse;
-        
-        this.logger.debug("Health check endpoint accessed", {
-          response_time_ms: responseTime,
-        });
-      } catch (error) {
-        const responseTime = Date.now() - startTime;
-        this.recordRequest(responseTime, false);
-        
-        this.logger.error("Health check endpoint failed", {
-          error_message: error instanceof Error ? error.message : String(error),
-          response_time_ms: responseTime,
-        });
-        
-        ctx.response.status = 503;
-        ctx.response.body = {
+      this.logger.debug("Health check endpoint accessed", {
+        response_time_ms: Date.now() - startTime,
+      });
+      return { status: 200, body: healthResponse };
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      
+      this.logger.error("Health check endpoint failed", {
+        error_message: error instanceof Error ? error.message : String(error),
+        response_time_ms: responseTime,
+      });
+      
+      return {
+        status: 503,
+        body: {
           success: false,
           error: {
             code: "HEALTH_CHECK_FAILED",
             message: "Health check failed",
           },
+        },
+      };
+    }
+  }
+
+  /**
+   * Health check as a fetch-style handler for Deno.serve and Hono
+   */
+  handleHealthRequest(): Response {
+    const { status, body } = this.respondToHealthCheck();
+    return Response.json(body, { status });
+  }
+
+  /**
+   * Create a middleware function that can be used with Oak router
+   */
+  createHealthEndpoint(): (ctx: ProbeContext) => void {
+    return (ctx) => {
+      const { status, body } = this.respondToHealthCheck();
+      ctx.response.status = status;
+      ctx.response.body = body;
+    };
+  }
+
+  /**
+   * Create an Oak handler serving the metrics registry in Prometheus text format
+   */
+  createMetricsEndpoint(): (
+    ctx: { response: { headers: Headers; body: unknown } }
+  ) => void {
+    return (ctx) => {
+      ctx.response.headers.set("Content-Type", PROMETHEUS_CONTENT_TYPE);
+      ctx.response.body = this.metricsRegistry.render();
+    };
+  }
+
+  /**
+   * Persisted status transitions (and optionally snapshots) for dashboards
+   */
+  getHistory(
+    since = Date.now() - DEFAULT_HISTORY_QUERY_MS,
+    limit = DEFAULT_HISTORY_LIMIT,
+    includeSnapshots = false
+  ): ServiceResponse<HealthHistoryResponse> {
+    if (!this.history) {
+      return {
+        success: false,
+        error: {
+          code: "HEALTH_HISTORY_DISABLED",
+          message: "Health history is not configured for this service",
+          statusCode: 404,
+        },
+      };
+    }
+
+    try {
+      const cappedLimit = Math.min(Math.max(1, limit), MAX_HISTORY_LIMIT);
+      const data: HealthHistoryResponse = {
+        service: this.serviceName,
+        since: new Date(since).toISOString(),
+        uptime_percentage: round(this.history.getUptimePercentage(since)),
+        transitions: this.history.getTransitions(since, cappedLimit),
+      };
+      if (includeSnapshots) {
+        data.snapshots = this.history.getSnapshots(since, cappedLimit);
+      }
+      return { success: true, data };
+    } catch (error) {
+      this.logger.error("Failed to read health history", serializeError(error));
+      return {
+        success: false,
+        error: {
+          code: "HEALTH_HISTORY_FAILED",
+          message: "Failed to read health history",
+          statusCode: 500,
+        },
+      };
+    }
+  }
+
+  /**
+   * Oak handler returning status transitions as a time series
+   *
+   * Query parameters: `since` (ISO timestamp, default 24 hours ago),
+   * `limit` (default 500, max 5000) and `snapshots=true` to include the
+   * periodic snapshots.
+   */
+  createHistoryEndpoint(): (
+    ctx: { request: { url: URL }; response: { status: number; body: unknown } }
+  ) => void {
+    return (ctx) => {
+      const params = ctx.request.url.searchParams;
+      const sinceParam = params.get("since");
+      const since = sinceParam ? Date.parse(sinceParam) : undefined;
+      const limit = params.get("limit") ? Number(params.get("limit")) : undefined;
+
+      if ((since !== undefined && Number.isNaN(since)) || (limit !== undefined && !Number.isInteger(limit))) {
+        ctx.response.status = 400;
+        ctx.response.body = {
+          success: false,
+          error: {
+            code: "INVALID_HISTORY_QUERY",
+            message: "'since' must be an ISO timestamp and 'limit' an integer",
+            statusCode: 400,
+          },
         };
+        return;
       }
+
+      const history = this.getHistory(since, limit, params.get("snapshots") === "true");
+      ctx.response.status = history.success ? 200 : history.error?.statusCode ?? 500;
+      ctx.response.body = history;
     };
   }
 
   /**
-   * Remove old response time entries to keep memory usage bounded
+   * Stop the history heartbeat (graceful shutdown, tests); the last
+   * snapshot marks when this process was last known up
    */
-  private cleanupResponseTimes(currentTime: number): void {
-    // Remove entries older than the time window
-    const cutoffTime = currentTime - this.responseTimeWindowMs;
-    this.responseTimes = this.responseTimes.filter(entry => entry.timestamp > cutoffTime);
-    
-    // If still too many entries, keep only the most recent ones
-    if (this.responseTimes.length > this.maxResponseTimeEntries) {
-      this.responseTimes = this.responseTimes.slice(-this.maxResponseTimeEntries);
+  stop(): void {
+    if (this.heartbeatTimer !== undefined) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+      this.persistSnapshot();
+    }
+  }
+
+  private startHistory(history: HealthHistory, heartbeatIntervalMs: number): void {
+    try {
+      history.recordStart(this.startTime);
+    } catch (error) {
+      this.logger.error("Failed to record service start in health history", serializeError(error));
     }
+
+    this.heartbeatTimer = setInterval(() => this.persistSnapshot(), heartbeatIntervalMs);
+    // Never keep the process alive just for heartbeats
+    Deno.unrefTimer(this.heartbeatTimer);
   }
 
   /**
-   * Get recent response times within the time window
+   * Persist the current window as a snapshot; failures are logged, never thrown
    */
-  private getRecentResponseTimes(currentTime: number): number[] {
-    const cutoffTime = currentTime - this.responseTimeWindowMs;
-    return this.responseTimes
-      .filter(entry => entry.timestamp > cutoffTime)
-      .map(entry => entry.responseTime);
+  private persistSnapshot(): void {
+    if (!this.history) return;
+
+    const now = Date.now();
+    const window = this.window.snapshot(now);
+    const status = this.determineHealthStatus(window);
+    this.trackStatus(status, now);
+
+    try {
+      this.history.recordSnapshot({
+        recorded_at: new Date(now).toISOString(),
+        status,
+        requests_in_window: window.count,
+        success_rate_percentage: round(window.successRate),
+        response_time_avg_ms: round(window.avg),
+        response_time_p95_ms: round(window.p95),
+        response_time_p99_ms: round(window.p99),
+      });
+    } catch (error) {
+      this.logger.error("Failed to persist health snapshot", serializeError(error));
+    }
   }
 
   /**
-   * Calculate average response time from an array of response times
+   * Record a status transition when the overall status changes
    */
-  private calculateAverageResponseTime(responseTimes: number[]): number {
-    if (responseTimes.length === 0) return 0;
-    const sum = responseTimes.reduce((acc, time) => acc + time, 0);
-    return sum / responseTimes.length;
+  private trackStatus(status: HealthStatus, now: number): void {
+    if (status === this.lastStatus) return;
+
+    const previous = this.lastStatus ?? null;
+    this.lastStatus = status;
+    if (previous !== null) {
+      this.logger.info("Health status changed", {
+        previous_status: previous,
+        health_status: status,
+      });
+    }
+
+    if (!this.history) return;
+    try {
+      this.history.recordTransition({
+        changed_at: new Date(now).toISOString(),
+        from_status: previous,
+        to_status: status,
+      });
+    } catch (error) {
+      this.logger.error("Failed to persist health status transition", serializeError(error));
+    }
+  }
+
+  private getUptimePercentage(now: number): number {
+    // Without history the process has been up since it started
+    if (!this.history) return 100;
+    try {
+      return round(
+        this.history.getUptimePercentage(now - this.uptimeWindowMs, now)
+      );
+    } catch (error) {
+      this.logger.error("Failed to read uptime from health history", serializeError(error));
+      return 100;
+    }
   }
 
   /**
-   * Calculate percentile from response times array
+   * Publish error budget and burn rate gauges, refreshed on each scrape
    */
-  private calculatePercentile(responseTimes: number[], percentile: number): number {
-    if (responseTimes.length === 0) return 0;
-    
-    const sorted = [...responseTimes].sort((a, b) => a - b);
-    const index = Math.ceil((percentile / 100) * sorted.length) - 1;
-    return sorted[Math.max(0, index)];
+  private registerSloMetrics(tracker: SloTracker): void {
+    const budgetGauge = this.metricsRegistry.gauge(
+      "service_slo_error_budget_remaining_ratio",
+      "Unspent share of the 30-day SLO error budget (0-1)",
+      ["service", "slo"]
+    );
+    const burnRateGauge = this.metricsRegistry.gauge(
+      "service_slo_burn_rate",
+      "SLO error rate divided by the error budget",
+      ["service", "slo", "window"]
+    );
+
+    this.metricsRegistry.onCollect(() => {
+      for (const [slo, status] of Object.entries(tracker.getStatus())) {
+        const labels = { service: this.serviceName, slo };
+        budgetGauge.set(status.error_budget_remaining_percentage / 100, labels);
+        for (const [window, burnRate] of Object.entries(status.burn_rates)) {
+          burnRateGauge.set(burnRate, { ...labels, window });
+        }
+      }
+    });
+  }
+
+  /**
+   * Track a request per method and route template, bounded by maxRoutes
+   */
+  private recordRouteRequest(responseTimeMs: number, success: boolean, request: RouteRequest): void {
+    const method = request.method.toUpperCase();
+    let key = `${method} ${request.route}`;
+    let stats = this.routes.get(key);
+
+    if (!stats) {
+      const overflow = this.routes.size >= this.maxRoutes;
+      if (overflow) {
+        key = OVERFLOW_ROUTE;
+        stats = this.routes.get(key);
+      }
+      if (!stats) {
+        stats = {
+          route: overflow ? OVERFLOW_ROUTE : request.route,
+          method: overflow ? OVERFLOW_ROUTE : method,
+          window: new SlidingWindowStats({ windowMs: this.window.windowMs }),
+          statusClasses: {},
+        };
+        this.routes.set(key, stats);
+      }
+    }
+
+    const statusClass = `${Math.floor(request.status / 100)}xx`;
+    stats.window.record(responseTimeMs, success);
+    stats.statusClasses[statusClass] = (stats.statusClasses[statusClass] ?? 0) + 1;
+
+    const labels = { service: this.serviceName, method: stats.method, route: stats.route };
+    this.routeRequestsCounter.inc({ ...labels, status_class: statusClass });
+    this.routeDurationHistogram.observe(responseTimeMs / 1000, labels);
+  }
+
+  /**
+   * Per-route latency and error rate over the health window
+   */
+  private getRouteHealth(now: number): Record<string, RouteHealth> {
+    const routes: Record<string, RouteHealth> = {};
+
+    for (const [key, stats] of this.routes) {
+      const window = stats.window.snapshot(now);
+      routes[key] = {
+        method: stats.method,
+        route: stats.route,
+        requests_in_window: window.count,
+        error_rate_percentage: round(100 - window.successRate),
+        response_time_avg_ms: round(window.avg),
+        response_time_p50_ms: round(window.p50),
+        response_time_p95_ms: round(window.p95),
+        response_time_p99_ms: round(window.p99),
+        status_classes: { ...stats.statusClasses },
+      };
+    }
+    return routes;
   }
 
   /**
-   * Determine health status based on success rate and response times
+   * Determine health status from the windowed success rate and latency
    */
-  private determineHealthStatus(successRate: number, avgResponseTime: number): HealthStatus {
-    // Unhealthy if success rate is below 90% or average response time > 2 seconds
-    if (successRate < 90 || avgResponseTime > 2000) {
+  private determineHealthStatus(window: WindowSnapshot): HealthStatus {
+    const {
+      degradedSuccessRate,
+      unhealthySuccessRate,
+      degradedLatencyMs,
+      unhealthyLatencyMs,
+      latencyStatistic,
+      minRequests,
+    } = this.thresholds;
+    // Too few requests in the window to judge the success rate
+    const successRate = window.count >= minRequests ? window.successRate : 100;
+    const latency = window[latencyStatistic];
+
+    if (successRate < unhealthySuccessRate || latency > unhealthyLatencyMs) {
       return "unhealthy";
     }
-    
-    // Degraded if success rate is below 95% or average response time > 500ms
-    if (successRate < 95 || avgResponseTime > 500) {
+
+    if (successRate < degradedSuccessRate || latency > degradedLatencyMs) {
       return "degraded";
     }
     
@@ -217,9 +771,24 @@ export class HealthMiddleware {
    */
   reset(): void {
     this.startTime = Date.now();
-    this.responseTimes = [];
+    this.window.clear();
+    this.sloTracker?.clear();
     this.totalRequests = 0;
     this.successfulRequests = 0;
+
+    const labels = { service: this.serviceName };
+    this.requestsCounter.remove({ ...labels, outcome: "success" });
+    this.requestsCounter.remove({ ...labels, outcome: "failure" });
+    this.successRatioGauge.remove(labels);
+    this.durationHistogram.remove(labels);
+    for (const stats of this.routes.values()) {
+      const routeLabels = { ...labels, method: stats.method, route: stats.route };
+      this.routeDurationHistogram.remove(routeLabels);
+      for (const statusClass of Object.keys(stats.statusClasses)) {
+        this.routeRequestsCounter.remove({ ...routeLabels, status_class: statusClass });
+      }
+    }
+    this.routes.clear();
     
     this.logger.info("Health middleware reset", {
       service: this.serviceName,
@@ -236,7 +805,7 @@ export class HealthMiddleware {
     uptimeSeconds: number;
     totalRequests: number;
     successfulRequests: number;
-    responseTimeEntries: number;
+    windowRequests: number;
   } {
     return {
       serviceName: this.serviceName,
@@ -244,7 +813,7 @@ export class HealthMiddleware {
       uptimeSeconds: Math.floor((Date.now() - this.startTime) / 1000),
       totalRequests: this.totalRequests,
       successfulRequests: this.successfulRequests,
-      responseTimeEntries: this.responseTimes.length,
+      windowRequests: this.window.snapshot().count,
     };
   }
 }
@@ -252,6 +821,9 @@ export class HealthMiddleware {
 /**
  * Create a new health middleware instance for a service
  */
-export function createHealthMiddleware(serviceName: string): HealthMiddleware {
-  return new HealthMiddleware(serviceName);
+export function createHealthMiddleware(
+  serviceName: string,
+  options?: HealthMiddlewareOptions
+): HealthMiddleware {
+  return new HealthMiddleware(serviceName, options);
 }
\ No newline at end of file
@@ -0,0 +1,241 @@
+import { createLogger } from "./logger.ts";
+
+const logger = createLogger("hedging", { module: "hedging" });
+
+export interface HedgingOptions<T> {
+  /** Start a backup attempt if no attempt has succeeded after this many ms (>= 0) */
+  hedgeAfterMs: number;
+  /** Backup attempts allowed in addition to the first (integer >= 0, default 1) */
+  maxHedges?: number;
+  /** Name used in logs and in HedgingFailedError */
+  operationName?: string;
+  /** Cancels every in-flight attempt */
+  signal?: AbortSignal;
+  /**
+   * Treat a resolved value as a failure (e.g. `{ success: false }`).
+   * A failed attempt starts the next hedge immediately; a predicate that
+   * throws fails the attempt with that error.
+   */
+  isSuccess?: (result: T) => boolean;
+}
+
+export class HedgingFailedError extends Error {
+  readonly attempts: number;
+  readonly operationName: string;
+  readonly attemptErrors: string[];
+
+  constructor(
+    operationName: string,
+    attempts: number,
+    attemptErrors: string[],
+    lastError: unknown
+  ) {
+    const errorHistory = attemptErrors
+      .map((err, i) => `Attempt ${i + 1}: ${err}`)
+      .join(" | ");
+
+    super(
+      `${operationName} failed in all ${attempts} hedged attempts. Errors: ${errorHistory}`
+    );
+
+    this.name = "HedgingFailedError";
+    this.operationName = operationName;
+    this.attempts = attempts;
+    this.attemptErrors = attemptErrors;
+    this.cause = lastError;
+  }
+}
+
+/**
+ * Run `fn` with hedged (backup) attempts to cut tail latency.
+ *
+ * The first attempt starts immediately. If it has not succeeded after
+ * `hedgeAfterMs`, a backup attempt starts alongside it, up to `maxHedges`
+ * backups. The first successful result wins and every other attempt's
+ * AbortSignal is aborted.
+ *
+ * If every attempt fails, the last value rejected by `isSuccess` is returned
+ * (so ServiceResponse-style callers keep their contract); if all attempts
+ * threw, HedgingFailedError is thrown.
+ *
+ * Only hedge idempotent, cheap calls: a backup duplicates the request.
+ *
+ * @throws Error when `hedgeAfterMs` is negative or `maxHedges` is not an
+ * integer >= 0
+ *
+ * @example
+ * ```typescript
+ * const page = await withHedging(
+ *   (signal) => firecrawlScrape({ url }, undefined, { signal }),
+ *   {
+ *     hedgeAfterMs: 3000,
+ *     operationName: "firecrawl_scrape",
+ *     isSuccess: (res) => res.success,
+ *   },
+ * );
+ * ```
+ */
+export function withHedging<T>(
+  fn: (signal: AbortSignal, attempt: number) => Promise<T>,
+  options: HedgingOptions<T>
+): Promise<T> {
+  const {
+    hedgeAfterMs,
+    maxHedges = 1,
+    operationName = "hedged_operation",
+    signal,
+    isSuccess = () => true,
+  } = options;
+
+  if (!(hedgeAfterMs >= 0)) {
+    throw new Error(`hedgeAfterMs must be >= 0, got ${hedgeAfterMs}`);
+  }
+  if (!Number.isInteger(maxHedges) || maxHedges < 0) {
+    throw new Error(`maxHedges must be an integer >= 0, got ${maxHedges}`);
+  }
+
+  const totalAttempts = maxHedges + 1;
+  const startTime = Date.now();
+
+  return new Promise<T>((resolve, reject) => {
+    const controllers: AbortController[] = [];
+    const attemptErrors: string[] = [];
+    let settled = false;
+    let launched = 0;
+    let pending = 0;
+    let lastError: unknown;
+    let lastFailedResult: { value: T } | undefined;
+    let hedgeTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = () => {
+      settled = true;
+      clearTimeout(hedgeTimer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    const abortOthers = (winner?: number) => {
+      controllers.forEach((controller, index) => {
+        if (index + 1 !== winner) {
+          controller.abort(
+            new DOMException(`${operationName} attempt lost`, "AbortError")
+          );
+        }
+      });
+    };
+
+    const onAbort = () => {
+      if (settled) return;
+      finish();
+      abortOthers();
+      reject(signal?.reason);
+    };
+
+    const onAttemptFailed = () => {
+      if (launched < totalAttempts) {
+        launch();
+        return;
+      }
+      if (pending > 0) return;
+
+      finish();
+      logger.warn(`${operationName} failed in all hedged attempts`, {
+        operation: "hedge_failed",
+        operation_name: operationName,
+        attempts: launched,
+        duration_ms: Date.now() - startTime,
+        error_history: attemptErrors.join(" | "),
+      });
+
+      if (lastFailedResult) {
+        resolve(lastFailedResult.value);
+      } else {
+        reject(
+          new HedgingFailedError(
+            operationName,
+            launched,
+            attemptErrors,
+            lastError
+          )
+        );
+      }
+    };
+
+    const launch = () => {
+      clearTimeout(hedgeTimer);
+      const attempt = ++launched;
+      const controller = new AbortController();
+      controllers.push(controller);
+      pending++;
+
+      if (attempt > 1) {
+        logger.debug(`${operationName} starting hedged attempt`, {
+          operation: "hedge_started",
+          operation_name: operationName,
+          attempt,
+          elapsed_ms: Date.now() - startTime,
+        });
+      }
+
+      // Attempts settle out of order; errors are stored by attempt number
+      const recordError = (error: unknown) => {
+        attemptErrors[attempt - 1] = error instanceof Error
+          ? error.message
+          : String(error);
+        lastError = error;
+      };
+
+      Promise.resolve().then(() => fn(controller.signal, attempt)).then(
+        (result) => {
+          pending--;
+          if (settled) return;
+
+          let succeeded: boolean;
+          try {
+            succeeded = isSuccess(result);
+          } catch (error) {
+            recordError(error);
+            onAttemptFailed();
+            return;
+          }
+
+          if (!succeeded) {
+            attemptErrors[attempt - 1] = "unsuccessful result";
+            lastFailedResult = { value: result };
+            onAttemptFailed();
+            return;
+          }
+
+          finish();
+          abortOthers(attempt);
+          logger.info(`${operationName} hedged attempt won`, {
+            operation: "hedge_won",
+            operation_name: operationName,
+            winning_attempt: attempt,
+            attempts_launched: launched,
+            duration_ms: Date.now() - startTime,
+          });
+          resolve(result);
+        },
+        (error: unknown) => {
+          pending--;
+          if (settled) return;
+
+          recordError(error);
+          onAttemptFailed();
+        }
+      );
+
+      if (launched < totalAttempts) {
+        hedgeTimer = setTimeout(launch, hedgeAfterMs);
+      }
+    };
+
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    launch();
+  });
+}
@@ -1,91 +1,299 @@
 import type { Context, Next } from "jsr:@oak/oak@^17.1.6";
 import { createLogger } from "./logger.ts";
+import {
+  CORRELATION_HEADER,
+  extractCorrelationId,
+} from "./correlation/correlation.ts";
+import { runWithContext } from "./correlation/context.ts";
+import { extractW3CTraceContext } from "./correlation/trace-context.ts";
+import { withSpan } from "./tracing/spans.ts";
+import {
+  applyLogLevelChange,
+  getLogLevels,
+} from "./logging/level-registry.ts";
+import type { HealthMiddleware } from "./health-middleware.ts";
+import {
+  createHttpRequestLogger,
+  extractRequestId,
+  getBodySize,
+  getContentLength,
+  type HttpLoggingOptions,
+  REQUEST_ID_HEADER,
+} from "./http/core.ts";
 
-export interface HttpLoggingOptions {
-  quietHealthChecks?: boolean;
-  isHealthCheck?: (path: string) => boolean;
-  module?: string;
-}
-
+/**
+ * Log every request with correlation and request IDs
+ *
+ * Extracts (or generates) the correlation ID and honors an incoming
+ * X-Request-ID, echoes both in the response, stores them in
+ * `ctx.state.correlationId` / `ctx.state.requestId` and runs the rest of
+ * the chain in an async context carrying them. Completion entries include
+ * client IP, parsed user agent, request/response byte sizes and the
+ * matched route template. Response size comes from Content-Length unless
+ * `measureResponseBodies` is set.
+ */
 export function createHttpLoggingMiddleware(
   serviceName: string,
   options: HttpLoggingOptions = {}
 ) {
-  const {
-    quietHealthChecks = true,
-    isHealthCheck = (path: string) => path === "/health",
-    module = "http:middleware",
-  } = options;
+  const startRequestLog = createHttpRequestLogger(serviceName, options);
 
-  const logger = createLogger(serviceName, { module });
+  return async (ctx: Context, next: Next) => {
+    const log = startRequestLog({
+      method: ctx.request.method,
+      path: ctx.request.url.pathname,
+      headers: ctx.request.headers,
+      clientIp: ctx.request.ip,
+    });
 
+    ctx.state.correlationId = log.correlationId;
+    ctx.state.requestId = log.requestId;
+    ctx.response.headers.set(CORRELATION_HEADER, log.correlationId);
+    ctx.response.headers.set(REQUEST_ID_HEADER, log.requestId);
+
+    try {
+      await runWithContext(
+        { correlation_id: log.correlationId, request_id: log.requestId },
+        () => next()
+      );
+      log.complete(ctx.response.status || 200, {
+        route: getRouteTemplate(ctx),
+        responseBytes: getContentLength(ctx.response.headers) ??
+          (options.measureResponseBodies
+            ? getBodySize(ctx.response.body)
+            : undefined),
+      });
+    } catch (error: unknown) {
+      log.fail(error, ctx.response.status || 500, { route: getRouteTemplate(ctx) });
+      throw error;
+    }
+  };
+}
+
+export function createRequestIdMiddleware() {
   return async (ctx: Context, next: Next) => {
     const requestId = crypto.randomUUID();
-    const startTime = Date.now();
+    ctx.response.headers.set(REQUEST_ID_HEADER, requestId);
+    ctx.state.requestId = requestId;
+    await next();
+  };
+}
+
+/**
+ * Populate the async logging context for each request
+ *
+ * Extracts (or generates) the correlation ID, honors an incoming
+ * X-Request-ID when it matches REQUEST_ID_PATTERN, echoes both in the
+ * response and runs the rest of the middleware chain inside
+ * runWithContext, so every logger call made while handling the request
+ * carries correlation_id and request_id.
+ *
+ * The request also runs in a server span that continues an incoming W3C
+ * traceparent (or starts a new trace), so entries carry trace_id/span_id
+ * and the span is exported when tracing is configured. The span is named
+ * by the HTTP method alone; the matched route template is added as
+ * `http.route` after the router has run, keeping span names bounded.
+ *
+ * Register it before createHttpLoggingMiddleware. Handlers can attach more
+ * fields later with updateContext({ user_id }).
+ */
+export function createRequestContextMiddleware() {
+  return async (ctx: Context, next: Next) => {
+    const correlationId = extractCorrelationId(ctx.request.headers);
+    const requestId = extractRequestId(ctx.request.headers);
+
+    ctx.state.correlationId = correlationId;
+    ctx.state.requestId = requestId;
+    ctx.response.headers.set(CORRELATION_HEADER, correlationId);
+    ctx.response.headers.set(REQUEST_ID_HEADER, requestId);
+
     const method = ctx.request.method;
     const path = ctx.request.url.pathname;
 
-    ctx.response.headers.set("X-Request-ID", requestId);
+    await runWithContext(
+      { correlation_id: correlationId, request_id: requestId },
+      () =>
+        withSpan(
+          method,
+          {
+            kind: "server",
+            parent: extractW3CTraceContext(ctx.request.headers) ?? null,
+            attributes: {
+              "http.request.method": method,
+              "url.path": path,
+              "correlation_id": correlationId,
+            },
+          },
+          async (span) => {
+            try {
+              await next();
+            } finally {
+              const route = getRouteTemplate(ctx);
+              if (route !== UNMATCHED_ROUTE) {
+                span.setAttribute("http.route", route);
+              }
+            }
+            const status = ctx.response.status || 200;
+            span.setAttribute("http.response.status_code", status);
+            if (status >= 500) {
+              span.setStatus("error");
+            }
+          }
+        )
+    );
+  };
+}
+
+/** Route label for requests no router route matched (404s, static files) */
+export const UNMATCHED_ROUTE = "unmatched";
 
-    const isHealthCheckRequest = isHealthCheck(path);
+/**
+ * Oak router layers added to the context once the router has run
+ */
+interface MatchedRouteContext {
+  matched?: Array<{ path: string; methods: string[] }>;
+}
 
-    const baseMetadata = {
-      request_id: requestId,
-      http_method: method,
-      http_path: path,
-      isHealthCheck: isHealthCheckRequest,
-    };
+/**
+ * Route template matched by the Oak router ("/documents/:id"), or
+ * UNMATCHED_ROUTE. Only meaningful after `await next()` has reached the
+ * router; templates keep metric and log label cardinality bounded.
+ */
+export function getRouteTemplate(ctx: Context): string {
+  const matched = (ctx as Context & MatchedRouteContext).matched ?? [];
+  const method = ctx.request.method === "HEAD" ? "GET" : ctx.request.method;
 
-    if (isHealthCheckRequest && quietHealthChecks) {
-      logger.debug("HTTP request received", baseMetadata);
-    } else {
-      logger.info("HTTP request received", baseMetadata);
+  // Router.use() layers have no methods; the last method layer is the route
+  for (let i = matched.length - 1; i >= 0; i--) {
+    const layer = matched[i];
+    if (layer.methods.includes(method) || layer.methods.includes(ctx.request.method)) {
+      return layer.path;
     }
+  }
+  return UNMATCHED_ROUTE;
+}
 
-    try {
-      await next();
+export interface RequestMetricsOptions {
+  /** Skip recording for these paths (default: /health* and /metrics) */
+  exclude?: (path: string) => boolean;
+  /** Statuses counted as failures (default 5xx; 4xx are client errors) */
+  isFailure?: (status: number) => boolean;
+}
 
-      const durationMs = Date.now() - startTime;
-      const status = ctx.response.status || 200;
+/**
+ * Record every request into HealthMiddleware with its route template,
+ * method and status, feeding the overall health status, the per-route
+ * `routes` section and the service_route_* Prometheus series
+ *
+ * Register it on the application before the router so the matched route
+ * is known once the request completes. Requests that throw are recorded as
+ * 500 failures.
+ */
+export function createRequestMetricsMiddleware(
+  health: HealthMiddleware,
+  options: RequestMetricsOptions = {}
+) {
+  const {
+    exclude = (path: string) => path.startsWith("/health") || path === "/metrics",
+    isFailure = (status: number) => status >= 500,
+  } = options;
 
-      const responseMetadata = {
-        ...baseMetadata,
-        http_status: status,
-        duration_ms: durationMs,
-      };
+  return async (ctx: Context, next: Next) => {
+    if (exclude(ctx.request.url.pathname)) {
+      await next();
+      return;
+    }
 
-      if (status >= 500) {
-        logger.error("HTTP request completed", responseMetadata);
-      } else if (status >= 400) {
-        logger.warn("HTTP request completed", responseMetadata);
-      } else if (isHealthCheckRequest && quietHealthChecks) {
-        logger.debug("HTTP request completed", responseMetadata);
-      } else {
-        logger.info("HTTP request completed", responseMetadata);
-      }
-    } catch (error: unknown) {
-      const durationMs = Date.now() - startTime;
-      const status = ctx.response.status || 500;
-
-      logger.error("HTTP request failed", {
-        ...baseMetadata,
-        http_status: status,
-        duration_ms: durationMs,
-        error_message: error instanceof Error ? error.message : String(error),
-        error_name: error instanceof Error ? error.name : "UnknownError",
-        error_stack: error instanceof Error ? error.stack : undefined,
+    const startTime = Date.now();
+    let status = 500;
+    try {
+      await next();
+      status = ctx.response.status || 200;
+    } finally {
+      health.recordRequest(Date.now() - startTime, !isFailure(status), {
+        route: getRouteTemplate(ctx),
+        method: ctx.request.method,
+        status,
       });
-
-      throw error;
     }
   };
 }
 
-export function createRequestIdMiddleware() {
+export interface LogLevelAdminOptions {
+  /** Route path (default "/admin/log-levels") */
+  path?: string;
+  /** Required as "Authorization: Bearer <token>" when set */
+  adminToken?: string;
+}
+
+/**
+ * Admin route for runtime log levels
+ *
+ * - GET returns the default level and per-module overrides
+ * - PUT/POST applies a change, e.g. `{ "level": "debug", "module": "openai" }`
+ *   or `{ "spec": "info,openai=debug" }` (see applyLogLevelChange)
+ * - DELETE drops runtime changes and re-reads LOG_LEVEL
+ *
+ * Changes apply immediately to every logger in the process. Set adminToken
+ * or keep the route off public listeners.
+ */
+export function createLogLevelAdminMiddleware(
+  options: LogLevelAdminOptions = {}
+) {
+  const { path = "/admin/log-levels", adminToken } = options;
+  const logger = createLogger("log-level-admin", { module: "http:log-levels" });
+
   return async (ctx: Context, next: Next) => {
-    const requestId = crypto.randomUUID();
-    ctx.response.headers.set("X-Request-ID", requestId);
-    ctx.state.requestId = requestId;
-    await next();
+    if (ctx.request.url.pathname !== path) {
+      await next();
+      return;
+    }
+
+    if (
+      adminToken !== undefined &&
+      ctx.request.headers.get("Authorization") !== `Bearer ${adminToken}`
+    ) {
+      ctx.response.status = 401;
+      ctx.response.body = {
+        success: false,
+        error: { code: "UNAUTHORIZED", message: "Invalid admin token", statusCode: 401 },
+      };
+      return;
+    }
+
+    switch (ctx.request.method) {
+      case "GET": {
+        ctx.response.body = { success: true, data: getLogLevels() };
+        return;
+      }
+      case "PUT":
+      case "POST":
+      case "DELETE": {
+        let body: unknown = { reset: true };
+        if (ctx.request.method !== "DELETE") {
+          try {
+            body = await ctx.request.body.json();
+          } catch {
+            body = undefined;
+          }
+        }
+
+        const result = applyLogLevelChange(body);
+        ctx.response.status = result.success ? 200 : result.error?.statusCode ?? 400;
+        ctx.response.body = result;
+
+        if (result.success) {
+          logger.warn("Log levels changed", {
+            log_level_default: result.data?.default ?? "none",
+            log_level_overrides: JSON.stringify(result.data?.overrides ?? {}),
+          });
+        }
+        return;
+      }
+      default: {
+        ctx.response.status = 405;
+        ctx.response.headers.set("Allow", "GET, PUT, POST, DELETE");
+      }
+    }
   };
 }
@@ -0,0 +1,234 @@
+/**
+ * Framework-neutral HTTP request logging
+ *
+ * The Oak, Hono and Deno.serve adapters all delegate here, so every
+ * framework logs the same messages, levels and fields.
+ *
+ * Each request gets a correlation ID (incoming X-Correlation-ID or a new
+ * one) and a request ID (incoming X-Request-ID or a new UUID). When
+ * createRequestContextMiddleware already set them in the async context,
+ * those are reused so both middlewares agree. Entries carry client IP,
+ * parsed user agent, request/response sizes and the route template.
+ */
+
+import { createLogger } from "../logger.ts";
+import { extractCorrelationId } from "../correlation/correlation.ts";
+import { getContext } from "../correlation/context.ts";
+import { parseUserAgent } from "../user-agent-parser.ts";
+
+export const REQUEST_ID_HEADER = "X-Request-ID";
+
+/** Incoming request IDs are honored only when they look like IDs */
+export const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * The incoming X-Request-ID when it matches REQUEST_ID_PATTERN, otherwise
+ * a new UUID (so header values cannot inject arbitrary text into logs)
+ */
+export function extractRequestId(headers: Headers): string {
+  const incoming = headers.get(REQUEST_ID_HEADER);
+  return incoming && REQUEST_ID_PATTERN.test(incoming)
+    ? incoming
+    : crypto.randomUUID();
+}
+
+export interface HttpLoggingOptions {
+  quietHealthChecks?: boolean;
+  isHealthCheck?: (path: string) => boolean;
+  module?: string;
+  /**
+   * Take the client IP from X-Forwarded-For / X-Real-IP (default false;
+   * enable behind a trusted proxy). Without it, Oak's ctx.request.ip
+   * (which honors the app's `proxy` option) or the connection address is used.
+   */
+  trustProxyHeaders?: boolean;
+  /**
+   * Oak only: when a response has no Content-Length, measure its body for
+   * `response_bytes` (default false). Plain-object bodies are serialized
+   * an extra time to be measured, so leave this off for large payloads;
+   * without it, `response_bytes` comes from Content-Length alone.
+   */
+  measureResponseBodies?: boolean;
+}
+
+/**
+ * What the adapters know about a request when it arrives
+ */
+export interface HttpRequestInfo {
+  method: string;
+  path: string;
+  headers: Headers;
+  /** Client IP as resolved by the framework or connection */
+  clientIp?: string;
+}
+
+/**
+ * What the adapters know once the response is ready
+ */
+export interface HttpResponseInfo {
+  /** Response body size in bytes, when known */
+  responseBytes?: number;
+  /** Matched route template ("/documents/:id") */
+  route?: string;
+}
+
+/**
+ * Logging handle for one request, returned by the request logger
+ */
+export interface HttpRequestLog {
+  requestId: string;
+  correlationId: string;
+  /** Log completion; 5xx logs at ERROR, 4xx at WARN */
+  complete(status: number, response?: HttpResponseInfo): void;
+  /** Log a request whose handler threw (status defaults to 500) */
+  fail(error: unknown, status?: number, response?: HttpResponseInfo): void;
+}
+
+/**
+ * Create a per-request logger: call it when a request arrives, then
+ * complete() or fail() once the handler has finished
+ */
+export function createHttpRequestLogger(
+  serviceName: string,
+  options: HttpLoggingOptions = {}
+): (request: HttpRequestInfo) => HttpRequestLog {
+  const {
+    quietHealthChecks = true,
+    isHealthCheck = (path: string) => path === "/health",
+    module = "http:middleware",
+    trustProxyHeaders = false,
+  } = options;
+
+  const logger = createLogger(serviceName, { module });
+
+  return ({ method, path, headers, clientIp }) => {
+    const context = getContext();
+    const correlationId = context?.correlation_id ?? extractCorrelationId(headers);
+    const requestId = context?.request_id ?? extractRequestId(headers);
+    const startTime = Date.now();
+    const isHealthCheckRequest = isHealthCheck(path);
+    const quiet = isHealthCheckRequest && quietHealthChecks;
+
+    const baseMetadata = {
+      correlation_id: correlationId,
+      request_id: requestId,
+      http_method: method,
+      http_path: path,
+      isHealthCheck: isHealthCheckRequest,
+      client_ip: (trustProxyHeaders ? getForwardedIp(headers) : undefined) ?? clientIp,
+      request_bytes: getContentLength(headers),
+      ...getUserAgentFields(headers),
+    };
+
+    if (quiet) {
+      logger.debug("HTTP request received", baseMetadata);
+    } else {
+      logger.info("HTTP request received", baseMetadata);
+    }
+
+    return {
+      requestId,
+      correlationId,
+
+      complete(status, response = {}) {
+        const responseMetadata = {
+          ...baseMetadata,
+          http_route: response.route,
+          http_status: status,
+          duration_ms: Date.now() - startTime,
+          response_bytes: response.responseBytes,
+        };
+
+        if (status >= 500) {
+          logger.error("HTTP request completed", responseMetadata);
+        } else if (status >= 400) {
+          logger.warn("HTTP request completed", responseMetadata);
+        } else if (quiet) {
+          logger.debug("HTTP request completed", responseMetadata);
+        } else {
+          logger.info("HTTP request completed", responseMetadata);
+        }
+      },
+
+      fail(error, status = 500, response = {}) {
+        logger.error("HTTP request failed", {
+          ...baseMetadata,
+          http_route: response.route,
+          http_status: status,
+          duration_ms: Date.now() - startTime,
+          error_message: error instanceof Error ? error.message : String(error),
+          error_name: error instanceof Error ? error.name : "UnknownError",
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+      },
+    };
+  };
+}
+
+/**
+ * First X-Forwarded-For hop (the original client), else X-Real-IP
+ */
+function getForwardedIp(headers: Headers): string | undefined {
+  const forwarded = headers.get("X-Forwarded-For")?.split(",")[0]?.trim();
+  return forwarded || headers.get("X-Real-IP") || undefined;
+}
+
+/**
+ * Content-Length as a number, if present and valid
+ */
+export function getContentLength(headers: Headers): number | undefined {
+  const value = headers.get("Content-Length");
+  if (value === null) return undefined;
+  const length = Number(value);
+  return Number.isInteger(length) && length >= 0 ? length : undefined;
+}
+
+/**
+ * Size of a response body before it is sent; undefined for streams and
+ * other bodies whose size is unknown up front. Plain objects are measured
+ * by serializing them, so callers opt in (HttpLoggingOptions.measureResponseBodies).
+ */
+export function getBodySize(body: unknown): number | undefined {
+  if (body === null || body === undefined) return 0;
+  if (typeof body === "string") return new TextEncoder().encode(body).byteLength;
+  if (body instanceof Uint8Array || body instanceof ArrayBuffer) return body.byteLength;
+  if (body instanceof Blob) return body.size;
+  if (body instanceof ReadableStream || typeof body === "function") return undefined;
+  if (typeof body === "object") {
+    // Oak serializes plain objects and arrays as JSON
+    return new TextEncoder().encode(JSON.stringify(body)).byteLength;
+  }
+  return undefined;
+}
+
+function getUserAgentFields(headers: Headers) {
+  const userAgent = headers.get("User-Agent");
+  if (!userAgent) return {};
+
+  const parsed = parseUserAgent(userAgent);
+  return {
+    user_agent_browser: parsed.browserName,
+    user_agent_browser_version: parsed.browserVersion,
+    user_agent_os: parsed.osName,
+    user_agent_os_version: parsed.osVersion,
+  };
+}
+
+/**
+ * Set a header on a Response, copying it first when its headers are
+ * immutable (Response.redirect(), responses returned by fetch)
+ */
+export function withResponseHeader(
+  response: Response,
+  name: string,
+  value: string
+): Response {
+  try {
+    response.headers.set(name, value);
+    return response;
+  } catch {
+    const copy = new Response(response.body, response);
+    copy.headers.set(name, value);
+    return copy;
+  }
+}
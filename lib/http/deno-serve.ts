@@ -0,0 +1,83 @@
+/**
+ * Adapters for plain `Deno.serve` handlers
+ *
+ * @example
+ * ```typescript
+ * const health = createHealthMiddleware("service-pdf");
+ *
+ * const handler = (request: Request) => {
+ *   const { pathname } = new URL(request.url);
+ *   if (pathname === "/health") return health.handleHealthRequest();
+ *   return app(request);
+ * };
+ *
+ * Deno.serve(withHttpLogging(handler, "service-pdf"));
+ * ```
+ */
+
+import { CORRELATION_HEADER } from "../correlation/correlation.ts";
+import { runWithContext } from "../correlation/context.ts";
+import {
+  createHttpRequestLogger,
+  getContentLength,
+  type HttpLoggingOptions,
+  REQUEST_ID_HEADER,
+  withResponseHeader,
+} from "./core.ts";
+
+export type ServeHandler = (
+  request: Request,
+  info: Deno.ServeHandlerInfo
+) => Response | Promise<Response>;
+
+/**
+ * Wrap a handler with request logging
+ *
+ * Runs the handler in an async context carrying the correlation and
+ * request IDs, and echoes X-Correlation-ID and X-Request-ID. There is no
+ * router, so entries have no route template.
+ */
+export function withHttpLogging(
+  handler: ServeHandler,
+  serviceName: string,
+  options: HttpLoggingOptions = {}
+): ServeHandler {
+  const startRequestLog = createHttpRequestLogger(serviceName, options);
+
+  return async (request, info) => {
+    const log = startRequestLog({
+      method: request.method,
+      path: new URL(request.url).pathname,
+      headers: request.headers,
+      clientIp: "hostname" in info.remoteAddr ? info.remoteAddr.hostname : undefined,
+    });
+
+    let response: Response;
+    try {
+      response = await runWithContext(
+        { correlation_id: log.correlationId, request_id: log.requestId },
+        () => handler(request, info)
+      );
+    } catch (error) {
+      log.fail(error);
+      throw error;
+    }
+
+    log.complete(response.status, { responseBytes: getContentLength(response.headers) });
+    return withResponseHeader(
+      withResponseHeader(response, REQUEST_ID_HEADER, log.requestId),
+      CORRELATION_HEADER,
+      log.correlationId
+    );
+  };
+}
+
+/**
+ * Wrap a handler to add a fresh X-Request-ID to every response
+ */
+export function withRequestId(handler: ServeHandler): ServeHandler {
+  return async (request, info) => {
+    const response = await handler(request, info);
+    return withResponseHeader(response, REQUEST_ID_HEADER, crypto.randomUUID());
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Hono middleware adapters
+ *
+ * Typed against the parts of Hono's Context they use, so this package does
+ * not depend on Hono. Health handlers need no adapter: Hono routes can
+ * return a Response directly.
+ *
+ * @example
+ * ```typescript
+ * const app = new Hono();
+ * app.use(createHonoHttpLoggingMiddleware("service-search"));
+ * app.get("/health", () => health.handleHealthRequest());
+ * ```
+ */
+
+import { CORRELATION_HEADER } from "../correlation/correlation.ts";
+import { runWithContext } from "../correlation/context.ts";
+import {
+  createHttpRequestLogger,
+  getContentLength,
+  type HttpLoggingOptions,
+  REQUEST_ID_HEADER,
+} from "./core.ts";
+
+/**
+ * The subset of Hono's Context used by these middlewares
+ */
+export interface HonoContextLike {
+  req: {
+    raw: Request;
+    method: string;
+    path: string;
+    /** Matched route template ("/documents/:id") */
+    routePath?: string;
+  };
+  /** Response produced by the downstream handlers (after `await next()`) */
+  res: Response;
+  /** Error caught by Hono's error handler, if any */
+  error?: unknown;
+  header(name: string, value: string): void;
+}
+
+export type HonoNext = () => Promise<void>;
+
+/**
+ * Request logging middleware for Hono
+ *
+ * Runs downstream handlers in an async context carrying the correlation
+ * and request IDs, and echoes X-Correlation-ID and X-Request-ID. Hono does
+ * not expose the connection address portably, so client_ip is only logged
+ * with `trustProxyHeaders`.
+ */
+export function createHonoHttpLoggingMiddleware(
+  serviceName: string,
+  options: HttpLoggingOptions = {}
+): (c: HonoContextLike, next: HonoNext) => Promise<void> {
+  const startRequestLog = createHttpRequestLogger(serviceName, options);
+
+  return async (c, next) => {
+    const log = startRequestLog({
+      method: c.req.method,
+      path: c.req.path,
+      headers: c.req.raw.headers,
+    });
+    c.header(REQUEST_ID_HEADER, log.requestId);
+    c.header(CORRELATION_HEADER, log.correlationId);
+
+    try {
+      await runWithContext(
+        { correlation_id: log.correlationId, request_id: log.requestId },
+        () => next()
+      );
+    } catch (error) {
+      log.fail(error, 500, { route: c.req.routePath });
+      throw error;
+    }
+
+    const response = {
+      route: c.req.routePath,
+      responseBytes: getContentLength(c.res.headers),
+    };
+    // Hono's onError turns thrown errors into a response instead of rethrowing
+    if (c.error !== undefined) {
+      log.fail(c.error, c.res.status, response);
+    } else {
+      log.complete(c.res.status, response);
+    }
+  };
+}
+
+/**
+ * Add a fresh X-Request-ID to every response
+ */
+export function createHonoRequestIdMiddleware(): (
+  c: HonoContextLike,
+  next: HonoNext
+) => Promise<void> {
+  return async (c, next) => {
+    c.header(REQUEST_ID_HEADER, crypto.randomUUID());
+    await next();
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * Framework-neutral HTTP logging with Hono and Deno.serve adapters
+ *
+ * The Oak middlewares (createHttpLoggingMiddleware, ...) live in
+ * http-logging-middleware.ts and share the same core.
+ */
+
+export * from './core.ts';
+export * from './deno-serve.ts';
+export * from './hono.ts';
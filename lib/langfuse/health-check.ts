@@ -0,0 +1,65 @@
+import type { DependencyCheck } from "../health-checks.ts";
+
+const REQUIRED_ENV_VARS = [
+  "LANGFUSE_PUBLIC_KEY",
+  "LANGFUSE_SECRET_KEY",
+  "LANGFUSE_BASE_URL",
+];
+
+export type LangfuseHealthCheckOptions = {
+  name?: string;
+  /** Default false: tracing loss should not take the service out of rotation */
+  critical?: boolean;
+  timeoutMs?: number;
+  /** Also authenticate against the public API (default true) */
+  verifyCredentials?: boolean;
+};
+
+/**
+ * Readiness check for Langfuse: required credentials are configured, the
+ * server answers /api/public/health and (optionally) accepts the keys
+ */
+export function createLangfuseHealthCheck(
+  options: LangfuseHealthCheckOptions = {}
+): DependencyCheck {
+  const { name = "langfuse", verifyCredentials = true } = options;
+
+  return {
+    name,
+    critical: options.critical ?? false,
+    timeoutMs: options.timeoutMs,
+    check: async (signal) => {
+      const missingVars = REQUIRED_ENV_VARS.filter((varName) => !Deno.env.get(varName));
+      if (missingVars.length > 0) {
+        throw new Error(`Missing required environment variables: ${missingVars.join(", ")}`);
+      }
+
+      const baseUrl = Deno.env.get("LANGFUSE_BASE_URL")!.replace(/\/$/, "");
+
+      const health = await fetch(`${baseUrl}/api/public/health`, { signal });
+      await health.body?.cancel();
+      if (!health.ok) {
+        throw new Error(`Langfuse health returned HTTP ${health.status}`);
+      }
+
+      if (verifyCredentials) {
+        const credentials = btoa(
+          `${Deno.env.get("LANGFUSE_PUBLIC_KEY")}:${Deno.env.get("LANGFUSE_SECRET_KEY")}`
+        );
+        const auth = await fetch(`${baseUrl}/api/public/projects`, {
+          headers: { Authorization: `Basic ${credentials}` },
+          signal,
+        });
+        await auth.body?.cancel();
+        if (auth.status === 401 || auth.status === 403) {
+          throw new Error("Langfuse rejected the configured credentials");
+        }
+        if (!auth.ok) {
+          throw new Error(`Langfuse projects API returned HTTP ${auth.status}`);
+        }
+      }
+
+      return { status: "healthy" };
+    },
+  };
+}
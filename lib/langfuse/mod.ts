@@ -204,3 +204,6 @@ export {
   extractTraceContext,
   flushEvents,
 };
+
+export { createLangfuseHealthCheck } from "./health-check.ts";
+export type { LangfuseHealthCheckOptions } from "./health-check.ts";
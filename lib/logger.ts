@@ -4,11 +4,27 @@
  * This module provides standardized logging that integrates with Loki/Grafana.
  * 
  * Environment variables:
- * - LOG_LEVEL: Sets minimum log level (ERROR, WARN, INFO, DEBUG, TRACE)
+ * - LOG_LEVEL: Sets minimum log level (ERROR, WARN, INFO, DEBUG, TRACE),
+ *   optionally per module: "info,openai=debug,firecrawl=warn"
  * - LOG_FORMAT: Sets output format ("json" or "text")
+ *
+ * Secrets and PII (API keys, bearer tokens, emails, card numbers) are
+ * redacted from every entry; see logging/redaction.ts to configure.
+ *
+ * Levels can be changed at runtime with setLogLevel() and apply to existing
+ * loggers immediately (see logging/level-registry.ts).
+ *
+ * Sampling rules and duplicate suppression are off by default; see
+ * logging/sampling.ts.
+ *
+ * Output goes to the console by default. Use setLogSinks() or the `sinks`
+ * option to add file, HTTP or in-memory destinations (see logging/sinks.ts).
  * 
  * IMPORTANT: For Loki/Grafana integration:
- * - Always use flat key-value pairs in metadata (avoid nested objects)
+ * - Always use flat key-value pairs in metadata (avoid nested objects),
+ *   or opt into `flattenMetadata` (see logging/serializers.ts)
+ * - Pass caught errors as values (`{ error: err }`, or `serializeError(err)`
+ *   for `unknown` catch variables), not `String(err)`
  * - Use consistent field names across services (error_type, error_id, trace_id, etc.)
  * - Keep metadata values as strings or numbers for best compatibility
  * 
@@ -35,22 +51,55 @@
  * ```
  */
 
-import { type LogEntry, type LoggerConfig, type FlatLogMetadata, LogLevel, validateFlatMetadata } from "./types.ts";
+import {
+  type FlattenOptions,
+  type LogEntry,
+  type LoggerConfig,
+  type LogMetadata,
+  LogLevel,
+  type NestedLogMetadata,
+  validateFlatMetadata,
+} from "./types.ts";
+import {
+  createConsoleGelfSink,
+  createConsoleTextSink,
+  getLogSinks,
+  writeToSinks,
+} from "./logging/sinks.ts";
+import { getRedactionConfig, redactLogEntry } from "./logging/redaction.ts";
+import { getContextLogMetadata } from "./correlation/context.ts";
+import { resolveLogLevel } from "./logging/level-registry.ts";
+import { expandErrorFields, flattenMetadata } from "./logging/serializers.ts";
+import { createLogSampler, getLogSampler } from "./logging/sampling.ts";
+import {
+  type OperationHandle,
+  type OperationOptions,
+  startOperation,
+  timeOperation,
+} from "./logging/operations.ts";
 
-function createLogger(
+/**
+ * Metadata type of a logger's methods: nested values only type-check on
+ * loggers that flatten them
+ */
+type MetadataFor<Options> = Options extends {
+  flattenMetadata: true | FlattenOptions;
+} ? NestedLogMetadata
+  : LogMetadata;
+
+function createLogger<
+  Options extends Partial<LoggerConfig> = Partial<LoggerConfig>,
+>(
   serviceName: string,
-  options: Partial<LoggerConfig> = {}
+  options: Options = {} as Options
 ) {
-  const envLogLevel = parseLogLevel(Deno.env.get("LOG_LEVEL"));
   const envLogFormat = Deno.env.get("LOG_FORMAT") as
     | "json"
     | "text"
     | undefined;
 
-  const minLevel =
-    envLogLevel !== undefined
-      ? envLogLevel
-      : options.minLevel ?? LogLevel.INFO;
+  // Fallback only: LOG_LEVEL and runtime overrides take precedence
+  const minLevel = options.minLevel ?? LogLevel.INFO;
 
   const format = envLogFormat ?? options.format ?? "json";
 
@@ -58,44 +107,90 @@ function createLogger(
     ? { serviceName, module: options.module, minLevel, format }
     : { serviceName, minLevel, format };
 
+  if (options.sinks !== undefined) {
+    config.sinks = options.sinks;
+  }
+  if (options.redaction !== undefined) {
+    config.redaction = options.redaction;
+  }
+  if (options.flattenMetadata !== undefined) {
+    config.flattenMetadata = options.flattenMetadata;
+  }
+  if (options.sampling !== undefined) {
+    config.sampling = options.sampling;
+  }
+
+  const ownSampler = config.sampling ? createLogSampler(config.sampling) : undefined;
+
+  // One emit per logger: the sampler tracks duplicates per callback, so
+  // dedupe summaries go to this logger's sinks
+  const emit = (entry: LogEntry) => outputLog(entry, config);
+
   function log(
     level: LogLevel,
     message: string,
     metadata: Record<string, unknown> = {}
   ): void {
-    if (level > config.minLevel) {
+    // Resolved per call so runtime level changes apply immediately
+    if (level > resolveLogLevel(config.serviceName, config.module, config.minLevel)) {
       return;
     }
 
+    // Error values become error_name/error_message/... fields; nested
+    // values are flattened when enabled, otherwise rejected
+    const fields = config.flattenMetadata
+      ? flattenMetadata(
+        metadata,
+        config.flattenMetadata === true ? {} : config.flattenMetadata
+      )
+      : expandErrorFields(metadata);
+
     // Validate metadata to ensure flat structure
-    validateFlatMetadata(metadata);
+    validateFlatMetadata(fields);
 
+    // Async-context fields (correlation_id, request_id, ...) come first so
+    // explicit metadata overrides them
     const entry: LogEntry = {
       timestamp: new Date().toISOString(),
       level: LogLevel[level],
       message,
       service: config.serviceName,
-      ...metadata,
+      ...getContextLogMetadata(),
+      ...fields,
     };
 
     if (config.module) {
       entry.module = config.module;
     }
 
-    outputLog(entry, config.format);
+    // Redact secrets and PII before any sink sees the entry
+    const redaction = config.redaction ?? getRedactionConfig();
+
+    const redacted = redaction ? redactLogEntry(entry, redaction) : entry;
+
+    // Sampling and dedupe run last so suppressed_count reflects what sinks miss
+    const sampler = config.sampling === false
+      ? undefined
+      : ownSampler ?? getLogSampler();
+
+    if (sampler) {
+      sampler.process(redacted, emit);
+    } else {
+      outputLog(redacted, config);
+    }
   }
 
   // Create a logger instance
   const logger = {
-    error: (message: string, metadata?: FlatLogMetadata) =>
+    error: (message: string, metadata?: MetadataFor<Options>) =>
       log(LogLevel.ERROR, message, metadata),
-    warn: (message: string, metadata?: FlatLogMetadata) =>
+    warn: (message: string, metadata?: MetadataFor<Options>) =>
       log(LogLevel.WARN, message, metadata),
-    info: (message: string, metadata?: FlatLogMetadata) =>
+    info: (message: string, metadata?: MetadataFor<Options>) =>
       log(LogLevel.INFO, message, metadata),
-    debug: (message: string, metadata?: FlatLogMetadata) =>
+    debug: (message: string, metadata?: MetadataFor<Options>) =>
       log(LogLevel.DEBUG, message, metadata),
-    trace: (message: string, metadata?: FlatLogMetadata) =>
+    trace: (message: string, metadata?: MetadataFor<Options>) =>
       log(LogLevel.TRACE, message, metadata),
       
     /**
@@ -141,7 +236,7 @@ function createLogger(
     infoWithTrace: (
       message: string,
       traceId: string,
-      metadata: FlatLogMetadata = {}
+      metadata: MetadataFor<Options> = {}
     ) => {
       log(LogLevel.INFO, message, {
         trace_id: traceId,
@@ -165,7 +260,7 @@ function createLogger(
       method: string,
       status: number,
       responseTime: number,
-      metadata: FlatLogMetadata = {}
+      metadata: MetadataFor<Options> = {}
     ) => {
       const level = status >= 500 ? LogLevel.ERROR : 
                    status >= 400 ? LogLevel.WARN : 
@@ -180,6 +275,34 @@ function createLogger(
       });
     },
     
+    /**
+     * Run `fn` as a timed operation: logs "<operation> started", then
+     * "<operation> completed" or "<operation> failed" with operation,
+     * operation_id, parent_operation_id, duration_ms and outcome
+     *
+     * @example
+     * const rows = await logger.time("load_users", () => db.query(sql), { table: "users" });
+     */
+    time: <T>(
+      operation: string,
+      fn: (handle: OperationHandle) => Promise<T> | T,
+      metadata?: LogMetadata,
+      operationOptions?: OperationOptions
+    ): Promise<T> => timeOperation(log, operation, fn, metadata, operationOptions),
+
+    /**
+     * Start a timed operation; call `.end()` or `.fail(err)` on the handle
+     *
+     * @example
+     * const op = logger.startOperation("batch_import", { batch_size: 100 });
+     * op.end({ imported: 100 });
+     */
+    startOperation: (
+      operation: string,
+      metadata?: LogMetadata,
+      operationOptions?: OperationOptions
+    ): OperationHandle => startOperation(log, operation, metadata, operationOptions),
+
     // Create a child logger with the same service name but different module
     child: (module: string) =>
       createLogger(config.serviceName, { ...options, module }),
@@ -188,134 +311,19 @@ function createLogger(
   return logger;
 }
 
-function parseLogLevel(level?: string): LogLevel | undefined {
-  if (!level) return undefined;
-
-  const upperLevel = level.toUpperCase();
-  if (upperLevel in LogLevel) {
-    return LogLevel[upperLevel as keyof typeof LogLevel];
-  }
-
-  return undefined;
-}
-
-/**
- * Convert LogLevel enum to GELF syslog level
- * GELF uses syslog severity levels:
- * 0=Emergency, 1=Alert, 2=Critical, 3=Error, 4=Warning, 5=Notice, 6=Info, 7=Debug
- */
-function logLevelToGelfLevel(level: LogLevel): number {
-  switch (level) {
-    case LogLevel.ERROR:
-      return 3; // Error
-    case LogLevel.WARN:
-      return 4; // Warning
-    case LogLevel.INFO:
-      return 6; // Informational
-    case LogLevel.DEBUG:
-      return 7; // Debug
-    case LogLevel.TRACE:
-      return 7; // Debug (GELF doesn't have TRACE)
-    default:
-      return 6; // Default to Info
-  }
-}
+const consoleGelfSink = createConsoleGelfSink();
+const consoleTextSink = createConsoleTextSink();
 
 /**
- * Convert LogEntry to GELF format
- *
- * GELF (Graylog Extended Log Format) is used by Seq via seq-input-gelf.
- * This ensures all log metadata is properly extracted by Seq.
+ * Resolve sinks for an entry: per-logger sinks, then global sinks, then the
+ * env-driven console default (GELF for Seq ingestion via Docker GELF driver
+ * + seq-input-gelf, or text)
  */
-function convertToGelf(entry: LogEntry): Record<string, unknown> {
-  const {
-    timestamp,
-    level,
-    message,
-    service,
-    module,
-    ...customFields
-  } = entry;
-
-  // Convert ISO timestamp to Unix timestamp (seconds)
-  const unixTimestamp = new Date(timestamp).getTime() / 1000;
-
-  // Determine numeric log level
-  const numericLevel =
-    typeof level === "string"
-      ? logLevelToGelfLevel(LogLevel[level as keyof typeof LogLevel])
-      : logLevelToGelfLevel(level);
-
-  // Build GELF message with required fields
-  const gelfMessage: Record<string, unknown> = {
-    version: "1.1",
-    host: service,
-    short_message: message,
-    timestamp: unixTimestamp,
-    level: numericLevel,
-    _level_name: typeof level === "string" ? level : LogLevel[level],
-    _service: service,  // Add service as custom field (host gets overwritten by seq-input-gelf)
-  };
-
-  // Add optional module
-  if (module) {
-    gelfMessage._module = module;
-  }
-
-  // Add all custom fields with underscore prefix (GELF requirement)
-  for (const [key, value] of Object.entries(customFields)) {
-    // GELF spec: custom fields must start with underscore
-    const gelfKey = key.startsWith("_") ? key : `_${key}`;
-
-    // Convert value to GELF-compatible type
-    if (
-      typeof value === "string" ||
-      typeof value === "number" ||
-      typeof value === "boolean"
-    ) {
-      gelfMessage[gelfKey] = value;
-    } else if (value === null || value === undefined) {
-      // Skip null/undefined values
-      continue;
-    } else {
-      // Serialize complex objects to JSON string
-      gelfMessage[gelfKey] = JSON.stringify(value);
-    }
-  }
-
-  return gelfMessage;
-}
-
-function outputLog(entry: LogEntry, format: "json" | "text"): void {
-  if (format === "json") {
-    // Output GELF format for Seq ingestion via Docker GELF driver + seq-input-gelf
-    const gelfMessage = convertToGelf(entry);
-    console.log(JSON.stringify(gelfMessage));
-  } else {
-    const level = entry.level.padEnd(5);
-    const module = entry.module ? `[${entry.module}]` : "";
-    const requestId = entry.requestId ? `(${entry.requestId})` : "";
-
-    // Extract common fields
-    const {
-      timestamp,
-      level: _,
-      service,
-      module: __,
-      message,
-      requestId: ___,
-      ...rest
-    } = entry;
+function outputLog(entry: LogEntry, config: LoggerConfig): void {
+  const sinks = config.sinks ?? getLogSinks() ??
+    [config.format === "json" ? consoleGelfSink : consoleTextSink];
 
-    let metadata = "";
-    if (Object.keys(rest).length > 0) {
-      metadata = ` ${JSON.stringify(rest)}`;
-    }
-
-    console.log(
-      `${timestamp} ${level} ${service}${module} ${requestId}: ${message}${metadata}`
-    );
-  }
+  writeToSinks(entry, sinks);
 }
 
 export { createLogger };
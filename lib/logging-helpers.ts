@@ -1,5 +1,6 @@
 import { createLogger } from "./logger.ts";
-import type { FlatLogMetadata } from "./types.ts";
+import { type FlatLogMetadata, LogLevel } from "./types.ts";
+import type { OperationHandle } from "./logging/operations.ts";
 
 export function createHealthCheckLogger(serviceName: string, module = "route:health") {
   const baseLogger = createLogger(serviceName, { module });
@@ -128,6 +129,28 @@ export function createDatabaseLogger(serviceName: string, module = "database") {
       });
     },
 
+    /**
+     * Time a database operation; completion is logged at DEBUG like query()
+     *
+     * @example
+     * const rows = await dbLogger.time("select_users", () => db.query(sql), { db_table: "users" });
+     */
+    time: <T>(
+      operation: string,
+      fn: (handle: OperationHandle) => Promise<T> | T,
+      metadata?: FlatLogMetadata
+    ) =>
+      baseLogger.time(operation, fn, { db_operation: operation, ...metadata }, {
+        level: LogLevel.DEBUG,
+      }),
+
+    startOperation: (operation: string, metadata?: FlatLogMetadata) =>
+      baseLogger.startOperation(
+        operation,
+        { db_operation: operation, ...metadata },
+        { level: LogLevel.DEBUG }
+      ),
+
     base: baseLogger,
   };
 }
@@ -174,6 +197,25 @@ export function createApiLogger(serviceName: string, module: string) {
       });
     },
 
+    /**
+     * Time an API call, e.g. `apiLogger.time("POST /v1/responses", () => fetch(...))`
+     */
+    time: <T>(
+      methodAndPath: string,
+      fn: (handle: OperationHandle) => Promise<T> | T,
+      metadata?: FlatLogMetadata
+    ) =>
+      baseLogger.time(methodAndPath, fn, {
+        api_endpoint: methodAndPath,
+        ...metadata,
+      }),
+
+    startOperation: (methodAndPath: string, metadata?: FlatLogMetadata) =>
+      baseLogger.startOperation(methodAndPath, {
+        api_endpoint: methodAndPath,
+        ...metadata,
+      }),
+
     base: baseLogger,
   };
 }
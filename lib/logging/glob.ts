@@ -0,0 +1,14 @@
+/**
+ * Case-insensitive glob patterns (`*` matches any run of characters), used
+ * for redaction key patterns and sampling module rules
+ */
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(
+    /\*/g,
+    ".*",
+  );
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+export { globToRegExp };
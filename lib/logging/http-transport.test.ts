@@ -0,0 +1,171 @@
+import { deepStrictEqual, strictEqual } from "node:assert/strict";
+import { fixedBackoff } from "../backoff.ts";
+import type { LogEntry } from "../types.ts";
+import { createLokiSink, createSeqSink } from "./http-transport.ts";
+
+interface ReceivedRequest {
+  path: string;
+  headers: Headers;
+  body: string;
+}
+
+/**
+ * Run `fn` against a local HTTP stub; `respond` gets the zero-based
+ * request number
+ */
+async function withStub(
+  respond: (index: number) => Response | Promise<Response>,
+  fn: (url: string, received: ReceivedRequest[]) => Promise<void>,
+): Promise<void> {
+  const received: ReceivedRequest[] = [];
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen() {} },
+    async (request) => {
+      const index = received.length;
+      received.push({
+        path: new URL(request.url).pathname + new URL(request.url).search,
+        headers: request.headers,
+        body: await request.text(),
+      });
+      return respond(index);
+    },
+  );
+
+  try {
+    await fn(`http://127.0.0.1:${server.addr.port}`, received);
+  } finally {
+    await server.shutdown();
+  }
+}
+
+function entry(message: string, overrides: Partial<LogEntry> = {}): LogEntry {
+  return {
+    timestamp: "2026-01-01T00:00:00.000Z",
+    level: "INFO",
+    message,
+    service: "service-test",
+    ...overrides,
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+Deno.test("seq sink posts CLEF batches with the API key", async () => {
+  await withStub(() => new Response(null, { status: 201 }), async (url, received) => {
+    const sink = createSeqSink({ url, apiKey: "seq-key", batchSize: 10 });
+    sink.write(entry("first", { correlation_id: "corr-1" }));
+    sink.write(entry("second", { level: "ERROR" }));
+    await sink.flush();
+
+    strictEqual(received.length, 1);
+    strictEqual(received[0].path, "/api/events/raw?clef");
+    strictEqual(received[0].headers.get("X-Seq-ApiKey"), "seq-key");
+
+    const events = received[0].body.split("\n").map((line) => JSON.parse(line));
+    deepStrictEqual(events.map((event) => [event["@m"], event["@l"]]), [
+      ["first", "Information"],
+      ["second", "Error"],
+    ]);
+    strictEqual(events[0]._correlation_id, "corr-1");
+    deepStrictEqual(sink.getStats(), {
+      buffered: 0,
+      shipped: 2,
+      dropped: 0,
+      failedBatches: 0,
+    });
+  });
+});
+
+Deno.test("loki sink groups entries into streams by level and module", async () => {
+  await withStub(() => new Response(null, { status: 204 }), async (url, received) => {
+    const sink = createLokiSink({ url, labels: { env: "test" }, tenantId: "tenant-a" });
+    sink.write(entry("one", { module: "db" }));
+    sink.write(entry("two", { module: "db" }));
+    sink.write(entry("three", { level: "WARN" }));
+    await sink.flush();
+
+    strictEqual(received[0].path, "/loki/api/v1/push");
+    strictEqual(received[0].headers.get("X-Scope-OrgID"), "tenant-a");
+
+    const { streams } = JSON.parse(received[0].body);
+    deepStrictEqual(
+      streams.map((stream: { stream: Record<string, string>; values: string[][] }) => [
+        stream.stream,
+        stream.values.length,
+      ]),
+      [
+        [{ env: "test", service: "service-test", level: "info", module: "db" }, 2],
+        [{ env: "test", service: "service-test", level: "warn" }, 1],
+      ],
+    );
+  });
+});
+
+Deno.test("retryable statuses are retried until the batch ships", async () => {
+  await withStub(
+    (index) => new Response(null, { status: index < 2 ? 503 : 200 }),
+    async (url, received) => {
+      const sink = createSeqSink({ url, backoff: fixedBackoff([1, 1]) });
+      sink.write(entry("retried"));
+      await sink.flush();
+
+      strictEqual(received.length, 3);
+      strictEqual(sink.getStats().shipped, 1);
+      strictEqual(sink.getStats().failedBatches, 0);
+    },
+  );
+});
+
+Deno.test("non-retryable statuses drop the batch without retrying", async () => {
+  await withStub(() => new Response(null, { status: 400 }), async (url, received) => {
+    const sink = createSeqSink({ url, backoff: fixedBackoff([1, 1]) });
+    sink.write(entry("rejected"));
+    await sink.flush();
+
+    strictEqual(received.length, 1);
+    deepStrictEqual(sink.getStats(), {
+      buffered: 0,
+      shipped: 0,
+      dropped: 1,
+      failedBatches: 1,
+    });
+  });
+});
+
+Deno.test("requests that exceed requestTimeoutMs are aborted and retried", async () => {
+  await withStub(
+    async (index) => {
+      if (index === 0) await sleep(300);
+      return new Response(null, { status: 200 });
+    },
+    async (url, received) => {
+      const sink = createSeqSink({
+        url,
+        requestTimeoutMs: 50,
+        backoff: fixedBackoff([1]),
+      });
+      sink.write(entry("slow"));
+
+      const startTime = Date.now();
+      await sink.flush();
+
+      strictEqual(received.length, 2);
+      strictEqual(sink.getStats().shipped, 1);
+      strictEqual(Date.now() - startTime < 300, true);
+    },
+  );
+});
+
+Deno.test("a full buffer drops the oldest entries", async () => {
+  await withStub(() => new Response(null, { status: 200 }), async (url, received) => {
+    const sink = createSeqSink({ url, batchSize: 10, maxBufferSize: 2 });
+    sink.write(entry("dropped"));
+    sink.write(entry("kept-1"));
+    sink.write(entry("kept-2"));
+    await sink.flush();
+
+    const messages = received[0].body.split("\n").map((line) => JSON.parse(line)["@m"]);
+    deepStrictEqual(messages, ["kept-1", "kept-2"]);
+    strictEqual(sink.getStats().dropped, 1);
+  });
+});
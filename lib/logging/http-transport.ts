@@ -0,0 +1,388 @@
+/**
+ * Batched asynchronous HTTP log shipping (Seq CLEF, Loki push API)
+ *
+ * Entries are buffered in memory and shipped in batches when the batch
+ * size is reached or the flush interval elapses. The buffer is bounded:
+ * when full, the oldest entries are dropped and counted. Failed batches
+ * (including requests that exceed `requestTimeoutMs`) are retried with
+ * exponential backoff before being dropped.
+ *
+ * Field names follow the GELF mapping used for stdout (`_correlation_id`,
+ * `_module`, `_level_name`, ...), so Seq queries written against the GELF
+ * pipeline keep working when shipping directly.
+ *
+ * The transport never logs through createLogger (that would recurse);
+ * delivery problems are reported on stderr and in getStats().
+ *
+ * @example Ship directly to Seq and Loki
+ * ```typescript
+ * const seq = createSeqSink({ url: "http://seq:5341", apiKey: Deno.env.get("SEQ_API_KEY") });
+ * const loki = createLokiSink({ url: "http://loki:3100", labels: { env: "prod" } });
+ * setLogSinks([createConsoleGelfSink(), seq, loki]);
+ *
+ * // On shutdown
+ * await flushLogSinks();
+ * ```
+ */
+
+import type { LogEntry, LogSink } from "../types.ts";
+import { type BackoffPolicy, exponentialBackoff } from "../backoff.ts";
+import { isRetryableStatus } from "../retryable-errors.ts";
+import { convertToGelf } from "./formatters.ts";
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+const DEFAULT_MAX_BUFFER_SIZE = 10_000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+
+interface BatchingTransportStats {
+  buffered: number;
+  shipped: number;
+  dropped: number;
+  failedBatches: number;
+}
+
+interface BatchingTransportOptions {
+  /** Flush once this many entries are buffered (default 100) */
+  batchSize?: number;
+  /** Flush buffered entries at least this often (default 5s) */
+  flushIntervalMs?: number;
+  /** Drop the oldest entries beyond this many buffered (default 10 000) */
+  maxBufferSize?: number;
+  /** Retry policy for failed batches (default 3 retries, 500ms exponential, full jitter) */
+  backoff?: BackoffPolicy;
+  /** Abort a batch request after this long; timeouts are retried (default 10s) */
+  requestTimeoutMs?: number;
+}
+
+interface BatchingSink extends LogSink {
+  flush(): Promise<void>;
+  close(): Promise<void>;
+  getStats(): BatchingTransportStats;
+}
+
+interface SeqSinkOptions extends BatchingTransportOptions {
+  /** Seq server base URL, e.g. http://seq:5341 */
+  url: string;
+  apiKey?: string;
+}
+
+interface LokiSinkOptions extends BatchingTransportOptions {
+  /** Loki base URL, e.g. http://loki:3100 */
+  url: string;
+  /** Static labels added to every stream (keep cardinality low) */
+  labels?: Record<string, string>;
+  /** Sent as X-Scope-OrgID for multi-tenant Loki */
+  tenantId?: string;
+  headers?: Record<string, string>;
+}
+
+class HttpShipError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "HttpShipError";
+    if (status !== undefined) {
+      this.status = status;
+    }
+  }
+}
+
+function defaultBackoff(): BackoffPolicy {
+  return exponentialBackoff({
+    initialDelayMs: 500,
+    maxDelayMs: 10_000,
+    maxRetries: 3,
+    jitter: "full",
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+interface BatchBuffer<T> {
+  add(item: T): void;
+  flush(): Promise<void>;
+  getStats(): BatchingTransportStats;
+}
+
+/**
+ * Bounded buffer that ships items in ordered, retried batches
+ *
+ * Shared by the log sinks below and the OTLP span exporter.
+ *
+ * @param name - Used in stderr diagnostics
+ * @param send - Ship one batch; throw HttpShipError (or any error) on failure
+ */
+function createBatchBuffer<T>(
+  name: string,
+  send: (batch: T[]) => Promise<void>,
+  options: BatchingTransportOptions = {},
+): BatchBuffer<T> {
+  const {
+    batchSize = DEFAULT_BATCH_SIZE,
+    flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS,
+    maxBufferSize = DEFAULT_MAX_BUFFER_SIZE,
+    backoff = defaultBackoff(),
+  } = options;
+
+  let buffer: T[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let inFlight: Promise<void> = Promise.resolve();
+  const stats = { shipped: 0, dropped: 0, failedBatches: 0 };
+
+  const sendWithRetry = async (batch: T[]): Promise<void> => {
+    let previousDelayMs = 0;
+
+    for (let attempt = 1; attempt <= backoff.maxRetries + 1; attempt++) {
+      try {
+        await send(batch);
+        stats.shipped += batch.length;
+        return;
+      } catch (error) {
+        const status = error instanceof HttpShipError ? error.status : undefined;
+        const retryable = status === undefined || isRetryableStatus(status);
+
+        if (!retryable || attempt > backoff.maxRetries) {
+          stats.failedBatches++;
+          stats.dropped += batch.length;
+          console.error(
+            `Transport '${name}': dropped ${batch.length} items after ${attempt} attempts: ${String(error)}`,
+          );
+          return;
+        }
+
+        previousDelayMs = backoff.computeDelay(attempt, previousDelayMs);
+        await sleep(previousDelayMs);
+      }
+    }
+  };
+
+  // Batches are shipped one at a time so entries arrive in order
+  const drain = (): Promise<void> => {
+    clearTimeout(timer);
+    timer = undefined;
+
+    inFlight = inFlight.then(async () => {
+      while (buffer.length > 0) {
+        const batch = buffer.slice(0, batchSize);
+        buffer = buffer.slice(batchSize);
+        await sendWithRetry(batch);
+      }
+    });
+
+    return inFlight;
+  };
+
+  return {
+    add: (item) => {
+      buffer.push(item);
+
+      if (buffer.length > maxBufferSize) {
+        const overflow = buffer.length - maxBufferSize;
+        buffer.splice(0, overflow);
+        stats.dropped += overflow;
+      }
+
+      if (buffer.length >= batchSize) {
+        void drain();
+      } else if (timer === undefined) {
+        const handle = setTimeout(() => void drain(), flushIntervalMs);
+        Deno.unrefTimer(handle);
+        timer = handle;
+      }
+    },
+    flush: drain,
+    getStats: () => ({ buffered: buffer.length, ...stats }),
+  };
+}
+
+/**
+ * Build a buffering sink around a batch sender
+ *
+ * @param name - Sink name (used in stderr diagnostics)
+ * @param send - Ship one batch; throw HttpShipError (or any error) on failure
+ */
+function createBatchingSink(
+  name: string,
+  send: (batch: LogEntry[]) => Promise<void>,
+  options: BatchingTransportOptions = {},
+): BatchingSink {
+  const buffer = createBatchBuffer(name, send, options);
+
+  return {
+    name,
+    write: buffer.add,
+    flush: buffer.flush,
+    close: buffer.flush,
+    getStats: buffer.getStats,
+  };
+}
+
+/**
+ * Post a body and turn non-2xx responses into HttpShipError
+ *
+ * A request that takes longer than `timeoutMs` is aborted and rejects with
+ * a TimeoutError, which the batch buffer retries like a network failure.
+ */
+async function postBatch(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+): Promise<void> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers,
+    body,
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  await res.body?.cancel();
+
+  if (!res.ok) {
+    throw new HttpShipError(`HTTP ${res.status} from ${url}`, res.status);
+  }
+}
+
+/**
+ * Fields after the GELF mapping, without GELF envelope keys
+ */
+function gelfFields(entry: LogEntry): Record<string, unknown> {
+  const {
+    version: _version,
+    host: _host,
+    short_message: _shortMessage,
+    timestamp: _timestamp,
+    level: _level,
+    ...fields
+  } = convertToGelf(entry);
+  return fields;
+}
+
+const CLEF_LEVELS: Record<string, string> = {
+  ERROR: "Error",
+  WARN: "Warning",
+  INFO: "Information",
+  DEBUG: "Debug",
+  TRACE: "Verbose",
+};
+
+/**
+ * Convert a LogEntry to a CLEF event (Seq's compact JSON format)
+ */
+function convertToClef(entry: LogEntry): Record<string, unknown> {
+  return {
+    "@t": entry.timestamp,
+    "@m": entry.message,
+    "@l": CLEF_LEVELS[entry.level] ?? "Information",
+    ...gelfFields(entry),
+  };
+}
+
+/**
+ * Ship entries to Seq's raw ingestion endpoint in CLEF
+ */
+function createSeqSink(options: SeqSinkOptions): BatchingSink {
+  const endpoint = `${options.url.replace(/\/$/, "")}/api/events/raw?clef`;
+  const headers: Record<string, string> = {
+    "Content-Type": "application/vnd.serilog.clef",
+  };
+  if (options.apiKey) {
+    headers["X-Seq-ApiKey"] = options.apiKey;
+  }
+
+  return createBatchingSink(
+    "seq",
+    (batch) =>
+      postBatch(
+        endpoint,
+        headers,
+        batch.map((entry) => JSON.stringify(convertToClef(entry))).join("\n"),
+        options.requestTimeoutMs,
+      ),
+    options,
+  );
+}
+
+/**
+ * Build a Loki push payload, one stream per service/module/level
+ */
+function buildLokiPayload(
+  batch: LogEntry[],
+  labels: Record<string, string>,
+): { streams: Array<{ stream: Record<string, string>; values: string[][] }> } {
+  const streams = new Map<
+    string,
+    { stream: Record<string, string>; values: string[][] }
+  >();
+
+  for (const entry of batch) {
+    const stream: Record<string, string> = {
+      ...labels,
+      service: entry.service,
+      level: entry.level.toLowerCase(),
+    };
+    if (entry.module) {
+      stream.module = entry.module;
+    }
+
+    const key = JSON.stringify(stream);
+    let group = streams.get(key);
+    if (!group) {
+      group = { stream, values: [] };
+      streams.set(key, group);
+    }
+
+    const nanoseconds = `${BigInt(new Date(entry.timestamp).getTime()) * 1_000_000n}`;
+    group.values.push([nanoseconds, JSON.stringify(convertToGelf(entry))]);
+  }
+
+  return { streams: [...streams.values()] };
+}
+
+/**
+ * Ship entries to Loki's push API; lines are GELF JSON so `| json` exposes
+ * the same `_field` names as the stdout pipeline
+ */
+function createLokiSink(options: LokiSinkOptions): BatchingSink {
+  const endpoint = `${options.url.replace(/\/$/, "")}/loki/api/v1/push`;
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...options.headers,
+  };
+  if (options.tenantId) {
+    headers["X-Scope-OrgID"] = options.tenantId;
+  }
+
+  return createBatchingSink(
+    "loki",
+    (batch) =>
+      postBatch(
+        endpoint,
+        headers,
+        JSON.stringify(buildLokiPayload(batch, options.labels ?? {})),
+        options.requestTimeoutMs,
+      ),
+    options,
+  );
+}
+
+export {
+  convertToClef,
+  createBatchBuffer,
+  createBatchingSink,
+  createLokiSink,
+  createSeqSink,
+  HttpShipError,
+  postBatch,
+};
+export type {
+  BatchBuffer,
+  BatchingSink,
+  BatchingTransportOptions,
+  BatchingTransportStats,
+  LokiSinkOptions,
+  SeqSinkOptions,
+};
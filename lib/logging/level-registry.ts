@@ -0,0 +1,244 @@
+/**
+ * Central log level registry with per-module overrides
+ *
+ * Every logger resolves its level on each call, so changes made here apply
+ * immediately to existing and child loggers without a redeploy.
+ *
+ * Level specs use the form `[default,]target=level,...`, for example
+ * `info,openai=debug,firecrawl=warn`. A target matches a logger's module
+ * (`openai`), a module prefix before ":" (`http` matches `http:middleware`)
+ * or a service name. The most specific match wins.
+ *
+ * LOG_LEVEL accepts the same spec; a plain level (`DEBUG`) keeps working.
+ *
+ * @example Runtime change
+ * ```typescript
+ * setLogLevel("debug", "openai");
+ * // ... investigate ...
+ * clearLogLevel("openai");
+ * ```
+ */
+
+import { LogLevel, type ServiceResponse } from "../types.ts";
+
+interface LogLevelSpec {
+  default?: LogLevel;
+  targets: Map<string, LogLevel>;
+}
+
+interface LogLevelsSnapshot {
+  default: string | null;
+  overrides: Record<string, string>;
+}
+
+let defaultLevel: LogLevel | undefined;
+let targetLevels = new Map<string, LogLevel>();
+let initialized = false;
+
+function parseLogLevel(level?: string): LogLevel | undefined {
+  if (!level) return undefined;
+
+  const upperLevel = level.trim().toUpperCase();
+  if (upperLevel in LogLevel && Number.isNaN(Number(upperLevel))) {
+    return LogLevel[upperLevel as keyof typeof LogLevel];
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a spec such as `info,openai=debug,firecrawl=warn`
+ * @throws Error on unknown levels
+ */
+function parseLogLevelSpec(spec: string): LogLevelSpec {
+  const result: LogLevelSpec = { targets: new Map() };
+
+  for (const part of spec.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const separator = part.indexOf("=");
+    const target = separator === -1 ? "" : part.substring(0, separator).trim();
+    const levelName = separator === -1 ? part : part.substring(separator + 1);
+    const level = parseLogLevel(levelName);
+
+    if (level === undefined) {
+      throw new Error(`Invalid log level '${levelName}' in '${spec}'`);
+    }
+
+    if (target === "" || target === "*") {
+      result.default = level;
+    } else {
+      result.targets.set(target, level);
+    }
+  }
+
+  return result;
+}
+
+function ensureInitialized(): void {
+  if (initialized) return;
+  initialized = true;
+
+  const envSpec = Deno.env.get("LOG_LEVEL");
+  if (!envSpec) return;
+
+  try {
+    const parsed = parseLogLevelSpec(envSpec);
+    defaultLevel = parsed.default;
+    targetLevels = parsed.targets;
+  } catch {
+    // Invalid LOG_LEVEL is ignored, as before
+  }
+}
+
+function toLogLevel(level: LogLevel | string): LogLevel {
+  if (typeof level === "number") return level;
+  const parsed = parseLogLevel(level);
+  if (parsed === undefined) {
+    throw new Error(`Invalid log level '${level}'`);
+  }
+  return parsed;
+}
+
+/**
+ * Replace every override with a spec (`info,openai=debug`)
+ */
+function configureLogLevels(spec: string): void {
+  const parsed = parseLogLevelSpec(spec);
+  initialized = true;
+  defaultLevel = parsed.default;
+  targetLevels = parsed.targets;
+}
+
+/**
+ * Set the level for a module/service, or the default when no target is given
+ */
+function setLogLevel(level: LogLevel | string, target?: string): void {
+  ensureInitialized();
+  const resolved = toLogLevel(level);
+
+  if (target === undefined || target === "*") {
+    defaultLevel = resolved;
+  } else {
+    targetLevels.set(target, resolved);
+  }
+}
+
+/**
+ * Remove the override for a module/service, or the default when no target is given
+ */
+function clearLogLevel(target?: string): void {
+  ensureInitialized();
+
+  if (target === undefined || target === "*") {
+    defaultLevel = undefined;
+  } else {
+    targetLevels.delete(target);
+  }
+}
+
+/**
+ * Drop runtime changes and re-read LOG_LEVEL
+ */
+function resetLogLevels(): void {
+  initialized = false;
+  defaultLevel = undefined;
+  targetLevels = new Map();
+}
+
+function getLogLevels(): LogLevelsSnapshot {
+  ensureInitialized();
+
+  return {
+    default: defaultLevel !== undefined ? LogLevel[defaultLevel] : null,
+    overrides: Object.fromEntries(
+      [...targetLevels].map(([target, level]) => [target, LogLevel[level]]),
+    ),
+  };
+}
+
+/**
+ * Effective level for a logger: module, module prefix, service, registry
+ * default, then the logger's own configured level
+ */
+function resolveLogLevel(
+  serviceName: string,
+  module: string | undefined,
+  fallback: LogLevel,
+): LogLevel {
+  ensureInitialized();
+
+  if (targetLevels.size > 0) {
+    if (module !== undefined) {
+      const exact = targetLevels.get(module);
+      if (exact !== undefined) return exact;
+
+      const segments = module.split(":");
+      for (let i = segments.length - 1; i > 0; i--) {
+        const prefix = targetLevels.get(segments.slice(0, i).join(":"));
+        if (prefix !== undefined) return prefix;
+      }
+    }
+
+    const service = targetLevels.get(serviceName);
+    if (service !== undefined) return service;
+  }
+
+  return defaultLevel ?? fallback;
+}
+
+/**
+ * Apply an admin request body and return the resulting levels
+ *
+ * Accepted bodies:
+ * - `{ "spec": "info,openai=debug" }` replaces all overrides
+ * - `{ "level": "debug", "module": "openai" }` sets one override
+ * - `{ "level": "warn" }` sets the default
+ * - `{ "level": null, "module": "openai" }` clears one override
+ * - `{ "reset": true }` drops runtime changes
+ */
+function applyLogLevelChange(
+  body: unknown,
+): ServiceResponse<LogLevelsSnapshot> {
+  if (typeof body !== "object" || body === null) {
+    return invalidRequest("Request body must be a JSON object");
+  }
+
+  const { spec, level, module, reset } = body as Record<string, unknown>;
+
+  try {
+    if (reset === true) {
+      resetLogLevels();
+    } else if (typeof spec === "string") {
+      configureLogLevels(spec);
+    } else if (level === null) {
+      clearLogLevel(typeof module === "string" ? module : undefined);
+    } else if (typeof level === "string") {
+      setLogLevel(level, typeof module === "string" ? module : undefined);
+    } else {
+      return invalidRequest("Provide 'spec', 'level' or 'reset'");
+    }
+  } catch (error) {
+    return invalidRequest(error instanceof Error ? error.message : String(error));
+  }
+
+  return { success: true, data: getLogLevels() };
+}
+
+function invalidRequest(message: string): ServiceResponse<LogLevelsSnapshot> {
+  return {
+    success: false,
+    error: { code: "INVALID_LOG_LEVEL_REQUEST", message, statusCode: 400 },
+  };
+}
+
+export {
+  applyLogLevelChange,
+  clearLogLevel,
+  configureLogLevels,
+  getLogLevels,
+  parseLogLevel,
+  parseLogLevelSpec,
+  resetLogLevels,
+  resolveLogLevel,
+  setLogLevel,
+};
+export type { LogLevelsSnapshot, LogLevelSpec };
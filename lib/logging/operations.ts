@@ -0,0 +1,169 @@
+/**
+ * Timed operation logging
+ *
+ * Replaces hand-rolled `const start = Date.now()` / `duration_ms` pairs
+ * with paired events that always carry the same fields:
+ * - `<operation> started` (DEBUG): operation, operation_id, parent_operation_id
+ * - `<operation> completed` (INFO by default): + duration_ms, outcome "success"
+ * - `<operation> failed` (ERROR): + duration_ms, outcome "failure", error_*
+ *
+ * Operations nest: an operation started inside `logger.time(...)` (in the
+ * same async call chain) or through `handle.child(...)` records the outer
+ * operation as `parent_operation_id`.
+ *
+ * @example Wrap a function
+ * ```typescript
+ * const pdf = await logger.time("pdf_download", () => download(url), { url });
+ * ```
+ *
+ * @example Manual handle
+ * ```typescript
+ * const op = logger.startOperation("batch_import", { batch_size: rows.length });
+ * try {
+ *   await importRows(rows);
+ *   op.end({ imported: rows.length });
+ * } catch (err) {
+ *   op.fail(err);
+ *   throw err;
+ * }
+ * ```
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { LogLevel, type LogMetadata } from "../types.ts";
+import { serializeError } from "./serializers.ts";
+
+type OperationLogFn = (
+  level: LogLevel,
+  message: string,
+  metadata: LogMetadata,
+) => void;
+
+interface OperationOptions {
+  /** Level of the completion event (default INFO; failures are always ERROR) */
+  level?: LogLevel;
+  /** Emit the DEBUG start event (default true) */
+  logStart?: boolean;
+  /** Explicit parent; defaults to the operation running in the current async chain */
+  parentOperationId?: string;
+}
+
+interface OperationHandle {
+  readonly operation: string;
+  readonly operationId: string;
+  readonly parentOperationId?: string;
+  /** Log completion; returns the duration. Later end/fail calls are ignored. */
+  end(metadata?: LogMetadata): number;
+  /** Log failure with the error expanded into error_* fields; returns the duration */
+  fail(error: unknown, metadata?: LogMetadata): number;
+  /** Start a nested operation with this one as parent */
+  child(
+    operation: string,
+    metadata?: LogMetadata,
+    options?: OperationOptions,
+  ): OperationHandle;
+}
+
+const currentOperation = new AsyncLocalStorage<string>();
+
+/**
+ * ID of the operation running in the current async call chain, if any
+ */
+function getCurrentOperationId(): string | undefined {
+  return currentOperation.getStore();
+}
+
+function startOperation(
+  log: OperationLogFn,
+  operation: string,
+  metadata: LogMetadata = {},
+  options: OperationOptions = {},
+): OperationHandle {
+  const {
+    level = LogLevel.INFO,
+    logStart = true,
+    parentOperationId = getCurrentOperationId(),
+  } = options;
+
+  const operationId = crypto.randomUUID();
+  const startTime = Date.now();
+  let durationMs: number | undefined;
+
+  const baseFields: LogMetadata = {
+    ...metadata,
+    operation,
+    operation_id: operationId,
+    parent_operation_id: parentOperationId,
+  };
+
+  if (logStart) {
+    log(LogLevel.DEBUG, `${operation} started`, baseFields);
+  }
+
+  const handle: OperationHandle = {
+    operation,
+    operationId,
+    parentOperationId,
+    end: (endMetadata = {}) => {
+      if (durationMs !== undefined) return durationMs;
+      durationMs = Date.now() - startTime;
+
+      log(level, `${operation} completed`, {
+        ...baseFields,
+        ...endMetadata,
+        duration_ms: durationMs,
+        outcome: "success",
+      });
+      return durationMs;
+    },
+    fail: (error, failMetadata = {}) => {
+      if (durationMs !== undefined) return durationMs;
+      durationMs = Date.now() - startTime;
+
+      log(LogLevel.ERROR, `${operation} failed`, {
+        ...baseFields,
+        ...failMetadata,
+        ...serializeError(error),
+        duration_ms: durationMs,
+        outcome: "failure",
+      });
+      return durationMs;
+    },
+    child: (childOperation, childMetadata, childOptions = {}) =>
+      startOperation(log, childOperation, childMetadata, {
+        ...childOptions,
+        parentOperationId: operationId,
+      }),
+  };
+
+  return handle;
+}
+
+/**
+ * Run `fn` as an operation: logs start, then completion or failure
+ * (rethrowing the error). Operations started inside `fn` nest under it.
+ */
+async function timeOperation<T>(
+  log: OperationLogFn,
+  operation: string,
+  fn: (handle: OperationHandle) => Promise<T> | T,
+  metadata?: LogMetadata,
+  options?: OperationOptions,
+): Promise<T> {
+  const handle = startOperation(log, operation, metadata, options);
+
+  try {
+    const result = await currentOperation.run(
+      handle.operationId,
+      () => fn(handle),
+    );
+    handle.end();
+    return result;
+  } catch (error) {
+    handle.fail(error);
+    throw error;
+  }
+}
+
+export { getCurrentOperationId, startOperation, timeOperation };
+export type { OperationHandle, OperationLogFn, OperationOptions };
@@ -0,0 +1,214 @@
+/**
+ * Secret and PII redaction for log entries
+ *
+ * createLogger applies these rules to every entry before any sink sees it:
+ * - Key patterns redact the whole value of matching metadata keys
+ *   (e.g. `openai_api_key`, `authorization`, `email`, `preview`)
+ * - Value detectors redact matching substrings inside the message and any
+ *   string value (bearer tokens, `sk-` keys, emails, card numbers), which
+ *   catches secrets that slip into `error` strings or response previews
+ *
+ * Redacted values are either masked (`[REDACTED]`) or replaced by a short
+ * stable hash (`[HASH:1a2b3c4d5e6f]`) so the same value can still be
+ * correlated across entries without being readable.
+ *
+ * @example Global configuration
+ * ```typescript
+ * configureRedaction({
+ *   ...DEFAULT_REDACTION_CONFIG,
+ *   keyPatterns: [...DEFAULT_REDACTION_KEY_PATTERNS, "*_body"],
+ *   mode: "hash",
+ * });
+ * ```
+ */
+
+import { createHash } from "node:crypto";
+import type { LogEntry, RedactionConfig, ValueDetector } from "../types.ts";
+import { globToRegExp } from "./glob.ts";
+
+const REDACTED = "[REDACTED]";
+
+/** Entry fields that are never redacted */
+const PROTECTED_FIELDS = new Set(["timestamp", "level", "service", "module"]);
+
+const DEFAULT_REDACTION_KEY_PATTERNS: ReadonlyArray<string> = [
+  "*api_key",
+  "*api-key",
+  "*access_key",
+  "*private_key",
+  "*signing_key",
+  "*encryption_key",
+  "apikey",
+  "*password*",
+  "*secret*",
+  "*_token",
+  "token",
+  "authorization",
+  "cookie",
+  "set-cookie",
+  "email",
+  "*_email",
+  "preview",
+];
+
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const BEARER_TOKEN_DETECTOR: ValueDetector = {
+  name: "bearer_token",
+  pattern: /Bearer\s+[A-Za-z0-9._~+/-]+=*/gi,
+};
+
+const API_KEY_DETECTOR: ValueDetector = {
+  name: "api_key",
+  pattern: /\bsk-[A-Za-z0-9_-]{16,}/g,
+};
+
+const EMAIL_DETECTOR: ValueDetector = {
+  name: "email",
+  pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+};
+
+/**
+ * Issuer prefixes: Visa, Mastercard (51-55, 2221-2720), Amex, Discover,
+ * JCB, Diners Club and UnionPay
+ */
+const CARD_PREFIX =
+  /^(?:4|5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d\d|27[01]\d|2720|3[47]|6011|64[4-9]|65|35(?:2[89]|[3-8]\d)|30[0-5]|3[689]|62)/;
+
+/** Digits written in card groups: 4-4-4-4(-3), Amex 4-6-5, Diners 4-6-4 */
+const CARD_GROUPS = /^(?:\d{4}([ -])\d{4}\1\d{4}\1\d{4}(?:\1\d{3})?|\d{4}([ -])\d{6}\2\d{4,5})$/;
+
+/**
+ * Luhn-valid numbers that either start with an issuer prefix or are
+ * written in card groups, so order IDs and timestamps are left alone
+ */
+function isLikelyCardNumber(candidate: string): boolean {
+  if (!passesLuhn(candidate)) return false;
+  return CARD_PREFIX.test(candidate.replace(/\D/g, "")) ||
+    CARD_GROUPS.test(candidate);
+}
+
+const CARD_NUMBER_DETECTOR: ValueDetector = {
+  name: "card_number",
+  pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+  validate: isLikelyCardNumber,
+};
+
+const DEFAULT_VALUE_DETECTORS: ReadonlyArray<ValueDetector> = [
+  BEARER_TOKEN_DETECTOR,
+  API_KEY_DETECTOR,
+  EMAIL_DETECTOR,
+  CARD_NUMBER_DETECTOR,
+];
+
+const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+  keyPatterns: [...DEFAULT_REDACTION_KEY_PATTERNS],
+  valueDetectors: [...DEFAULT_VALUE_DETECTORS],
+  mode: "mask",
+};
+
+let globalRedactionConfig: RedactionConfig | false = DEFAULT_REDACTION_CONFIG;
+let compiledKeyPatterns = new WeakMap<RedactionConfig, RegExp[]>();
+
+function getKeyPatterns(config: RedactionConfig): RegExp[] {
+  let patterns = compiledKeyPatterns.get(config);
+  if (!patterns) {
+    patterns = (config.keyPatterns ?? []).map((pattern) =>
+      typeof pattern === "string" ? globToRegExp(pattern) : pattern
+    );
+    compiledKeyPatterns.set(config, patterns);
+  }
+  return patterns;
+}
+
+function redactedValue(value: string, mode: "mask" | "hash"): string {
+  if (mode === "mask") return REDACTED;
+  const digest = createHash("sha256").update(value).digest("hex");
+  return `[HASH:${digest.substring(0, 12)}]`;
+}
+
+function redactString(value: string, config: RedactionConfig): string {
+  const mode = config.mode ?? "mask";
+  let result = value;
+
+  for (const detector of config.valueDetectors ?? []) {
+    result = result.replace(detector.pattern, (match) =>
+      detector.validate && !detector.validate(match)
+        ? match
+        : redactedValue(match, mode)
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Apply redaction rules to an entry, returning a new entry
+ */
+function redactLogEntry(entry: LogEntry, config: RedactionConfig): LogEntry {
+  const mode = config.mode ?? "mask";
+  const keyPatterns = getKeyPatterns(config);
+  const redacted: LogEntry = { ...entry };
+
+  for (const [key, value] of Object.entries(entry)) {
+    if (PROTECTED_FIELDS.has(key) || value === null || value === undefined) {
+      continue;
+    }
+
+    if (keyPatterns.some((pattern) => pattern.test(key))) {
+      redacted[key] = redactedValue(String(value), mode);
+    } else if (typeof value === "string") {
+      redacted[key] = redactString(value, config);
+    }
+  }
+
+  return redacted;
+}
+
+/**
+ * Set the redaction rules used by every logger without its own `redaction`
+ * option. Pass `false` to disable redaction globally.
+ */
+function configureRedaction(config: RedactionConfig | false): void {
+  globalRedactionConfig = config;
+  compiledKeyPatterns = new WeakMap();
+}
+
+function getRedactionConfig(): RedactionConfig | false {
+  return globalRedactionConfig;
+}
+
+/**
+ * Restore the default redaction rules
+ */
+function resetRedaction(): void {
+  configureRedaction(DEFAULT_REDACTION_CONFIG);
+}
+
+export {
+  API_KEY_DETECTOR,
+  BEARER_TOKEN_DETECTOR,
+  CARD_NUMBER_DETECTOR,
+  configureRedaction,
+  DEFAULT_REDACTION_CONFIG,
+  DEFAULT_REDACTION_KEY_PATTERNS,
+  DEFAULT_VALUE_DETECTORS,
+  EMAIL_DETECTOR,
+  getRedactionConfig,
+  redactLogEntry,
+  resetRedaction,
+};
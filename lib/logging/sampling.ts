@@ -0,0 +1,234 @@
+/**
+ * Log sampling and burst deduplication
+ *
+ * Applied by createLogger after redaction and before any sink:
+ * - Sampling rules match entries by level, module and message; the first
+ *   matching rule keeps a fraction of them (`rate`) and/or caps them per
+ *   second (`maxPerSecond`). Kept entries carry `sample_rate` when < 1.
+ * - Deduplication passes the first occurrence of an entry, swallows
+ *   identical ones (same message and fields, ignoring the timestamp) for
+ *   `windowMs`, then emits one entry with `suppressed_count`. State is kept
+ *   per `emit` callback, so each logger's summaries reach its own sinks.
+ *
+ * ERROR entries always pass through untouched.
+ *
+ * @example Tame high-volume paths
+ * ```typescript
+ * configureLogSampling({
+ *   rules: [
+ *     { module: "health-middleware", level: "TRACE", rate: 0.01 },
+ *     { message: /^Token count/, maxPerSecond: 5 },
+ *   ],
+ *   dedupe: { windowMs: 10_000 },
+ * });
+ * ```
+ */
+
+import type { LogEntry, SamplingConfig, SamplingRule } from "../types.ts";
+import { globToRegExp } from "./glob.ts";
+
+const DEFAULT_DEDUPE_MAX_KEYS = 1000;
+
+interface LogSampler {
+  /**
+   * Pass the entry to `emit` now, later (dedupe summary) or never. Pass the
+   * same `emit` for every entry of a logger: duplicates are tracked per
+   * callback.
+   */
+  process(entry: LogEntry, emit: (entry: LogEntry) => void): void;
+  /** Emit pending dedupe summaries immediately */
+  flush(): void;
+}
+
+interface RateWindow {
+  second: number;
+  count: number;
+}
+
+interface DedupeState {
+  expiresAt: number;
+  suppressed: number;
+  last?: LogEntry;
+  emit: (entry: LogEntry) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+function matchesRule(
+  rule: SamplingRule,
+  entry: LogEntry,
+  modulePattern: RegExp | undefined,
+): boolean {
+  if (rule.level !== undefined && rule.level.toUpperCase() !== entry.level) {
+    return false;
+  }
+  if (modulePattern && !modulePattern.test(entry.module ?? "")) {
+    return false;
+  }
+  if (rule.message !== undefined) {
+    return typeof rule.message === "string"
+      ? entry.message === rule.message
+      : rule.message.test(entry.message);
+  }
+  return true;
+}
+
+/**
+ * Dedupe key: every field except the timestamp, in a stable order
+ */
+function dedupeKey(entry: LogEntry): string {
+  const { timestamp: _timestamp, ...fields } = entry;
+  return JSON.stringify(
+    Object.keys(fields).sort().map((key) => [key, fields[key]]),
+  );
+}
+
+/**
+ * Build a sampler; each sampler keeps its own rate and dedupe state
+ */
+function createLogSampler(config: SamplingConfig): LogSampler {
+  const rules = config.rules ?? [];
+  const random = config.random ?? Math.random;
+  const modulePatterns = rules.map((rule) =>
+    rule.module !== undefined ? globToRegExp(rule.module) : undefined
+  );
+  const rateWindows: RateWindow[] = rules.map(() => ({ second: 0, count: 0 }));
+
+  const dedupe = config.dedupe || undefined;
+  const dedupeMaxKeys = dedupe?.maxKeys ?? DEFAULT_DEDUPE_MAX_KEYS;
+  const pending = new Map<string, DedupeState>();
+  const emitterIds = new WeakMap<(entry: LogEntry) => void, number>();
+  let nextEmitterId = 0;
+
+  const emitterId = (emit: (entry: LogEntry) => void): number => {
+    let id = emitterIds.get(emit);
+    if (id === undefined) {
+      id = nextEmitterId++;
+      emitterIds.set(emit, id);
+    }
+    return id;
+  };
+
+  const emitSummary = (key: string, state: DedupeState) => {
+    clearTimeout(state.timer);
+    pending.delete(key);
+    if (state.suppressed > 0 && state.last) {
+      state.emit({ ...state.last, suppressed_count: state.suppressed });
+    }
+  };
+
+  const sample = (entry: LogEntry): LogEntry | undefined => {
+    const index = rules.findIndex((rule, i) =>
+      matchesRule(rule, entry, modulePatterns[i])
+    );
+    if (index === -1) return entry;
+
+    const rule = rules[index];
+    const rate = rule.rate ?? 1;
+    if (rate < 1 && random() >= rate) {
+      return undefined;
+    }
+
+    if (rule.maxPerSecond !== undefined) {
+      const window = rateWindows[index];
+      const second = Math.floor(Date.now() / 1000);
+      if (window.second !== second) {
+        window.second = second;
+        window.count = 0;
+      }
+      if (window.count >= rule.maxPerSecond) {
+        return undefined;
+      }
+      window.count++;
+    }
+
+    return rate < 1 ? { ...entry, sample_rate: rate } : entry;
+  };
+
+  const deduplicate = (
+    entry: LogEntry,
+    emit: (entry: LogEntry) => void,
+  ): void => {
+    if (!dedupe) {
+      emit(entry);
+      return;
+    }
+
+    const key = `${emitterId(emit)}|${dedupeKey(entry)}`;
+    const now = Date.now();
+    const state = pending.get(key);
+
+    if (state && now < state.expiresAt) {
+      state.suppressed++;
+      state.last = entry;
+      return;
+    }
+    if (state) {
+      emitSummary(key, state);
+    }
+
+    // Past the bound, new messages are not tracked rather than evicting
+    if (pending.size < dedupeMaxKeys) {
+      const next: DedupeState = {
+        expiresAt: now + dedupe.windowMs,
+        suppressed: 0,
+        emit,
+      };
+      const handle = setTimeout(() => emitSummary(key, next), dedupe.windowMs);
+      Deno.unrefTimer(handle);
+      next.timer = handle;
+      pending.set(key, next);
+    }
+
+    emit(entry);
+  };
+
+  return {
+    process: (entry, emit) => {
+      if (entry.level === "ERROR") {
+        emit(entry);
+        return;
+      }
+
+      const sampled = sample(entry);
+      if (sampled) {
+        deduplicate(sampled, emit);
+      }
+    },
+    flush: () => {
+      for (const [key, state] of [...pending]) {
+        emitSummary(key, state);
+      }
+    },
+  };
+}
+
+let globalSampler: LogSampler | undefined;
+
+/**
+ * Set the sampling used by every logger without its own `sampling` option.
+ * Pass `false` to disable sampling globally (the default).
+ */
+function configureLogSampling(config: SamplingConfig | false): void {
+  globalSampler?.flush();
+  globalSampler = config ? createLogSampler(config) : undefined;
+}
+
+function getLogSampler(): LogSampler | undefined {
+  return globalSampler;
+}
+
+/**
+ * Emit pending dedupe summaries of the global sampler; call during shutdown
+ * before flushLogSinks()
+ */
+function flushLogSampling(): void {
+  globalSampler?.flush();
+}
+
+export {
+  configureLogSampling,
+  createLogSampler,
+  flushLogSampling,
+  getLogSampler,
+};
+export type { LogSampler };
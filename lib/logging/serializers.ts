@@ -0,0 +1,288 @@
+/**
+ * Error serialization and nested metadata flattening for log entries
+ *
+ * Loki/Grafana need flat key-value metadata. Instead of calling
+ * `String(err)` (which loses the stack, cause chain and retry history),
+ * pass the Error itself: the logger expands any Error value into flat
+ * `<key>_name`, `<key>_message`, `<key>_stack`, `<key>_cause_N_*` fields,
+ * plus `<key>_attempt_N` for RetryExhaustedError. Catch variables are
+ * `unknown`, so spread serializeError(err) to get the same fields.
+ *
+ * Loggers created with `flattenMetadata` also convert nested objects and
+ * arrays into prefixed keys (`user_address_city`, `tags_0`) instead of
+ * throwing, with depth, array length and key count limits.
+ *
+ * @example Log an error with its cause chain
+ * ```typescript
+ * try {
+ *   await withRetry(
+ *     () => callProvider(),
+ *     exponentialBackoff({ initialDelayMs: 500 }),
+ *     "call_provider",
+ *   );
+ * } catch (err) {
+ *   logger.error("Provider call failed", serializeError(err));
+ *   // error_name, error_message, error_stack, error_attempts,
+ *   // error_attempt_1, ..., error_cause_1_name, error_cause_1_message
+ * }
+ * ```
+ *
+ * @example Flatten untrusted payloads
+ * ```typescript
+ * const logger = createLogger("my-service", { flattenMetadata: { maxDepth: 2 } });
+ * logger.debug("Webhook received", { payload: body });
+ * // payload_event, payload_data_id, payload_items_0, ...
+ * ```
+ */
+
+import type {
+  FlatLogMetadata,
+  FlattenOptions,
+  SerializeErrorOptions,
+} from "../types.ts";
+
+const DEFAULT_MAX_CAUSE_DEPTH = 5;
+const DEFAULT_MAX_ATTEMPT_ERRORS = 10;
+const DEFAULT_MAX_DEPTH = 3;
+const DEFAULT_MAX_ARRAY_LENGTH = 10;
+const DEFAULT_MAX_KEYS = 100;
+const DEFAULT_MAX_STRING_LENGTH = 1000;
+
+type FlatValue = string | number | boolean | null | undefined;
+
+function isFlatValue(value: unknown): value is FlatValue {
+  return (
+    value === null ||
+    value === undefined ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  );
+}
+
+/**
+ * Human-readable message for any thrown value
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  try {
+    return JSON.stringify(error) ?? String(error);
+  } catch {
+    return String(error);
+  }
+}
+
+/**
+ * Expand a thrown value into flat log fields
+ *
+ * Includes `code` and `statusCode` when present (ServiceResponseError,
+ * Deno errors), the `cause` chain and the per-attempt history of
+ * RetryExhaustedError.
+ */
+function serializeError(
+  error: unknown,
+  options: SerializeErrorOptions = {},
+): FlatLogMetadata {
+  const {
+    prefix = "error",
+    includeStack = true,
+    maxCauseDepth = DEFAULT_MAX_CAUSE_DEPTH,
+    maxAttemptErrors = DEFAULT_MAX_ATTEMPT_ERRORS,
+  } = options;
+
+  const fields: FlatLogMetadata = {};
+  describeError(fields, prefix, error, includeStack);
+
+  if (!(error instanceof Error)) {
+    return fields;
+  }
+
+  // Duck-typed so this module does not depend on retry.ts
+  const retry = error as Error & {
+    attempts?: unknown;
+    attemptErrors?: unknown;
+    operationName?: unknown;
+    reason?: unknown;
+  };
+  if (Array.isArray(retry.attemptErrors)) {
+    if (typeof retry.operationName === "string") {
+      fields[`${prefix}_operation`] = retry.operationName;
+    }
+    if (typeof retry.attempts === "number") {
+      fields[`${prefix}_attempts`] = retry.attempts;
+    }
+    if (typeof retry.reason === "string") {
+      fields[`${prefix}_retry_reason`] = retry.reason;
+    }
+    retry.attemptErrors.slice(0, maxAttemptErrors).forEach((message, i) => {
+      fields[`${prefix}_attempt_${i + 1}`] = String(message);
+    });
+  }
+
+  let cause: unknown = error.cause;
+  for (let depth = 1; depth <= maxCauseDepth && cause !== undefined; depth++) {
+    describeError(fields, `${prefix}_cause_${depth}`, cause, false);
+    cause = cause instanceof Error ? cause.cause : undefined;
+  }
+
+  return fields;
+}
+
+function describeError(
+  fields: FlatLogMetadata,
+  prefix: string,
+  error: unknown,
+  includeStack: boolean,
+): void {
+  if (!(error instanceof Error)) {
+    fields[`${prefix}_message`] = getErrorMessage(error);
+    return;
+  }
+
+  fields[`${prefix}_name`] = error.name;
+  fields[`${prefix}_message`] = error.message;
+
+  const { code, statusCode } = error as Error & {
+    code?: unknown;
+    statusCode?: unknown;
+  };
+  if (typeof code === "string" || typeof code === "number") {
+    fields[`${prefix}_code`] = code;
+  }
+  if (typeof statusCode === "number") {
+    fields[`${prefix}_status_code`] = statusCode;
+  }
+  if (includeStack && error.stack) {
+    fields[`${prefix}_stack`] = error.stack;
+  }
+}
+
+/**
+ * Replace Error values with serializeError fields, leaving other values as is
+ */
+function expandErrorFields(
+  metadata: Record<string, unknown>,
+): Record<string, unknown> {
+  if (!Object.values(metadata).some((value) => value instanceof Error)) {
+    return metadata;
+  }
+
+  const expanded: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    if (value instanceof Error) {
+      Object.assign(expanded, serializeError(value, { prefix: key }));
+    } else {
+      expanded[key] = value;
+    }
+  }
+  return expanded;
+}
+
+function stringifyLeaf(value: unknown, maxStringLength: number): string {
+  let text: string;
+  try {
+    text = JSON.stringify(value) ?? String(value);
+  } catch {
+    text = "[Unserializable]";
+  }
+  return text.length > maxStringLength
+    ? `${text.substring(0, maxStringLength)}...`
+    : text;
+}
+
+/**
+ * Convert nested objects and arrays into flat prefixed keys
+ *
+ * Values nested deeper than `maxDepth` are JSON-encoded, arrays keep their
+ * first `maxArrayLength` items (with `<key>_truncated_count` for the rest)
+ * and keys beyond `maxKeys` are dropped and counted in
+ * `metadata_truncated_keys`.
+ */
+function flattenMetadata(
+  metadata: Record<string, unknown>,
+  options: FlattenOptions = {},
+): FlatLogMetadata {
+  const {
+    separator = "_",
+    maxDepth = DEFAULT_MAX_DEPTH,
+    maxArrayLength = DEFAULT_MAX_ARRAY_LENGTH,
+    maxKeys = DEFAULT_MAX_KEYS,
+    maxStringLength = DEFAULT_MAX_STRING_LENGTH,
+  } = options;
+
+  const flat: FlatLogMetadata = {};
+  const seen = new WeakSet<object>();
+  let keyCount = 0;
+  let droppedKeys = 0;
+
+  const add = (key: string, value: FlatValue) => {
+    if (keyCount >= maxKeys) {
+      droppedKeys++;
+      return;
+    }
+    flat[key] = value;
+    keyCount++;
+  };
+
+  const visit = (key: string, value: unknown, depth: number) => {
+    if (isFlatValue(value)) {
+      add(key, value);
+      return;
+    }
+    if (typeof value === "bigint") {
+      add(key, value.toString());
+      return;
+    }
+    if (typeof value === "function" || typeof value === "symbol") {
+      return;
+    }
+    if (value instanceof Date) {
+      add(key, value.toISOString());
+      return;
+    }
+    if (value instanceof Error) {
+      for (const [field, fieldValue] of Object.entries(serializeError(value, { prefix: key }))) {
+        add(field, fieldValue);
+      }
+      return;
+    }
+
+    const object = value as object;
+    if (seen.has(object)) {
+      add(key, "[Circular]");
+      return;
+    }
+    if (depth >= maxDepth) {
+      add(key, stringifyLeaf(value, maxStringLength));
+      return;
+    }
+
+    seen.add(object);
+    if (Array.isArray(value)) {
+      value.slice(0, maxArrayLength).forEach((item, i) =>
+        visit(`${key}${separator}${i}`, item, depth + 1)
+      );
+      if (value.length > maxArrayLength) {
+        add(`${key}${separator}truncated_count`, value.length - maxArrayLength);
+      }
+    } else {
+      for (const [childKey, childValue] of Object.entries(object)) {
+        visit(`${key}${separator}${childKey}`, childValue, depth + 1);
+      }
+    }
+    seen.delete(object);
+  };
+
+  for (const [key, value] of Object.entries(metadata)) {
+    visit(key, value, 0);
+  }
+
+  if (droppedKeys > 0) {
+    flat.metadata_truncated_keys = droppedKeys;
+  }
+
+  return flat;
+}
+
+export { expandErrorFields, flattenMetadata, getErrorMessage, serializeError };
@@ -0,0 +1,240 @@
+/**
+ * Log sinks (transports) for createLogger
+ *
+ * A sink receives every LogEntry that passes the logger's level filter.
+ * Several sinks can be active at once, configured globally with
+ * setLogSinks() or per logger via `createLogger(name, { sinks })`.
+ *
+ * Without any configuration the logger keeps its historical behavior:
+ * GELF JSON on stdout when LOG_FORMAT=json (default), text lines when
+ * LOG_FORMAT=text.
+ *
+ * @example Capture logs in tests
+ * ```typescript
+ * const memory = createMemorySink();
+ * const logger = createLogger("my-service", { sinks: [memory] });
+ *
+ * logger.info("Order processed", { order_id: "ORD-1" });
+ * assertEquals(memory.entries[0].order_id, "ORD-1");
+ * ```
+ *
+ * @example Ship to stdout and a rotating file
+ * ```typescript
+ * setLogSinks([
+ *   createConsoleGelfSink(),
+ *   createFileSink({ path: "/var/log/service.log", maxBytes: 10_000_000 }),
+ * ]);
+ * ```
+ */
+
+import type { LogEntry, LogSink } from "../types.ts";
+import { convertToGelf, formatTextEntry } from "./formatters.ts";
+import {
+  type BatchingSink,
+  type BatchingTransportOptions,
+  createBatchingSink,
+  postBatch,
+} from "./http-transport.ts";
+
+const DEFAULT_FILE_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_FILE_MAX_FILES = 5;
+
+interface MemorySink extends LogSink {
+  readonly entries: LogEntry[];
+  clear(): void;
+}
+
+interface FileSinkOptions {
+  /** Log file path; the directory must exist */
+  path: string;
+  format?: "json" | "text";
+  /** Rotate once the file reaches this size (default 10 MB) */
+  maxBytes?: number;
+  /** Rotated files to keep: path.1 ... path.N (default 5) */
+  maxFiles?: number;
+}
+
+interface HttpBatchSinkOptions extends BatchingTransportOptions {
+  url: string;
+  headers?: Record<string, string>;
+  /** Build the request body for a batch (default: newline-delimited GELF) */
+  serialize?: (entries: LogEntry[]) => string;
+}
+
+function formatEntry(entry: LogEntry, format: "json" | "text"): string {
+  return format === "json"
+    ? JSON.stringify(convertToGelf(entry))
+    : formatTextEntry(entry);
+}
+
+/**
+ * GELF JSON on stdout, for Seq ingestion via the Docker GELF driver
+ */
+function createConsoleGelfSink(): LogSink {
+  return {
+    name: "console-gelf",
+    write: (entry) => console.log(formatEntry(entry, "json")),
+  };
+}
+
+/**
+ * Human-readable lines on stdout
+ */
+function createConsoleTextSink(): LogSink {
+  return {
+    name: "console-text",
+    write: (entry) => console.log(formatEntry(entry, "text")),
+  };
+}
+
+/**
+ * Keep entries in memory (tests, debugging endpoints)
+ * @param maxEntries - Oldest entries are dropped beyond this count
+ */
+function createMemorySink(maxEntries = Number.POSITIVE_INFINITY): MemorySink {
+  const entries: LogEntry[] = [];
+
+  return {
+    name: "memory",
+    entries,
+    write: (entry) => {
+      entries.push(entry);
+      if (entries.length > maxEntries) {
+        entries.shift();
+      }
+    },
+    clear: () => {
+      entries.length = 0;
+    },
+  };
+}
+
+/**
+ * Append entries to a file, rotating by size
+ */
+function createFileSink(options: FileSinkOptions): LogSink {
+  const {
+    path,
+    format = "json",
+    maxBytes = DEFAULT_FILE_MAX_BYTES,
+    maxFiles = DEFAULT_FILE_MAX_FILES,
+  } = options;
+  const encoder = new TextEncoder();
+
+  let currentSize = 0;
+  try {
+    currentSize = Deno.statSync(path).size;
+  } catch {
+    // File does not exist yet
+  }
+
+  const rotate = () => {
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      try {
+        Deno.renameSync(`${path}.${i}`, `${path}.${i + 1}`);
+      } catch {
+        // Rotated file may not exist yet
+      }
+    }
+    try {
+      Deno.renameSync(path, `${path}.1`);
+    } catch {
+      // Nothing to rotate
+    }
+    currentSize = 0;
+  };
+
+  return {
+    name: "file",
+    write: (entry) => {
+      const bytes = encoder.encode(`${formatEntry(entry, format)}\n`);
+      if (currentSize > 0 && currentSize + bytes.length > maxBytes) {
+        rotate();
+      }
+      Deno.writeFileSync(path, bytes, { append: true, create: true });
+      currentSize += bytes.length;
+    },
+  };
+}
+
+/**
+ * Buffer entries and POST them in batches
+ *
+ * Flushes when `batchSize` entries are buffered or every `flushIntervalMs`,
+ * retrying failed batches (see logging/http-transport.ts).
+ * Call flush() before shutdown so buffered entries are not lost.
+ */
+function createHttpBatchSink(options: HttpBatchSinkOptions): BatchingSink {
+  const {
+    url,
+    headers = {},
+    serialize = (entries: LogEntry[]) =>
+      entries.map((entry) => JSON.stringify(convertToGelf(entry))).join("\n"),
+  } = options;
+
+  return createBatchingSink(
+    "http-batch",
+    (batch) =>
+      postBatch(url, headers, serialize(batch), options.requestTimeoutMs),
+    options,
+  );
+}
+
+let globalSinks: LogSink[] | undefined;
+
+/**
+ * Set the sinks used by every logger that does not configure its own.
+ * Applies to existing loggers immediately.
+ */
+function setLogSinks(sinks: LogSink[]): void {
+  globalSinks = [...sinks];
+}
+
+/**
+ * Globally configured sinks, or undefined when the env-driven default applies
+ */
+function getLogSinks(): LogSink[] | undefined {
+  return globalSinks;
+}
+
+/**
+ * Restore the env-driven default (console output per LOG_FORMAT)
+ */
+function resetLogSinks(): void {
+  globalSinks = undefined;
+}
+
+/**
+ * Flush every global sink; call during graceful shutdown
+ */
+async function flushLogSinks(): Promise<void> {
+  await Promise.all((globalSinks ?? []).map((sink) => sink.flush?.()));
+}
+
+/**
+ * Deliver an entry to sinks, isolating failures so a broken sink
+ * never breaks the caller
+ */
+function writeToSinks(entry: LogEntry, sinks: LogSink[]): void {
+  for (const sink of sinks) {
+    try {
+      sink.write(entry);
+    } catch (error) {
+      console.error(`Log sink '${sink.name}' failed: ${String(error)}`);
+    }
+  }
+}
+
+export {
+  createConsoleGelfSink,
+  createConsoleTextSink,
+  createFileSink,
+  createHttpBatchSink,
+  createMemorySink,
+  flushLogSinks,
+  getLogSinks,
+  resetLogSinks,
+  setLogSinks,
+  writeToSinks,
+};
+export type { FileSinkOptions, HttpBatchSinkOptions, MemorySink };
@@ -0,0 +1,373 @@
+/**
+ * In-process metrics registry with Prometheus text exposition
+ *
+ * Counters, gauges and histograms with labels, rendered in the Prometheus
+ * text format (version 0.0.4) for scraping from a `/metrics` route.
+ * HealthMiddleware publishes request metrics here and the provider clients
+ * publish token, cost and error metrics per model.
+ *
+ * Keep label values low-cardinality (model names, outcomes, status
+ * classes), never IDs or URLs.
+ *
+ * @example Custom metrics
+ * ```typescript
+ * const registry = getMetricsRegistry();
+ * const jobs = registry.counter("pdf_jobs_total", "PDF jobs processed", ["outcome"]);
+ * const queue = registry.gauge("pdf_queue_depth", "Jobs waiting");
+ * const duration = registry.histogram("pdf_job_duration_seconds", "Job duration", ["kind"]);
+ *
+ * jobs.inc({ outcome: "success" });
+ * queue.set(12);
+ * duration.observe(1.7, { kind: "ocr" });
+ * ```
+ *
+ * @example Oak route
+ * ```typescript
+ * router.get("/metrics", health.createMetricsEndpoint());
+ * ```
+ */
+
+type Labels = Record<string, string | number | boolean>;
+type MetricType = "counter" | "gauge" | "histogram";
+
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/** Prometheus client default buckets, in seconds */
+const DEFAULT_BUCKETS: ReadonlyArray<number> = [
+  0.005,
+  0.01,
+  0.025,
+  0.05,
+  0.1,
+  0.25,
+  0.5,
+  1,
+  2.5,
+  5,
+  10,
+];
+
+const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(
+    /"/g,
+    '\\"',
+  );
+}
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Number.POSITIVE_INFINITY) return "+Inf";
+  if (value === Number.NEGATIVE_INFINITY) return "-Inf";
+  return String(value);
+}
+
+function formatLabels(names: ReadonlyArray<string>, values: ReadonlyArray<string>): string {
+  if (names.length === 0) return "";
+  const pairs = names.map((name, i) => `${name}="${escapeLabelValue(values[i])}"`);
+  return `{${pairs.join(",")}}`;
+}
+
+/**
+ * Shared label handling for all metric types
+ */
+abstract class Metric<TSeries> {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: ReadonlyArray<string>;
+  abstract readonly type: MetricType;
+  protected readonly series = new Map<string, { labelValues: string[]; data: TSeries }>();
+
+  constructor(name: string, help: string, labelNames: ReadonlyArray<string>) {
+    if (!METRIC_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid metric name '${name}'`);
+    }
+    for (const label of labelNames) {
+      if (!LABEL_NAME_PATTERN.test(label) || label.startsWith("__")) {
+        throw new Error(`Invalid label name '${label}' for metric '${name}'`);
+      }
+    }
+
+    this.name = name;
+    this.help = help;
+    this.labelNames = [...labelNames];
+  }
+
+  protected abstract createSeries(): TSeries;
+
+  protected getSeries(labels: Labels = {}): TSeries {
+    const labelValues = this.labelNames.map((name) => {
+      const value = labels[name];
+      if (value === undefined) {
+        throw new Error(`Missing label '${name}' for metric '${this.name}'`);
+      }
+      return String(value);
+    });
+
+    for (const key of Object.keys(labels)) {
+      if (!this.labelNames.includes(key)) {
+        throw new Error(`Unknown label '${key}' for metric '${this.name}'`);
+      }
+    }
+
+    const key = labelValues.join("\u0000");
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labelValues, data: this.createSeries() };
+      this.series.set(key, entry);
+    }
+    return entry.data;
+  }
+
+  /**
+   * Drop one labelled series, or all of them when no labels are given
+   */
+  remove(labels?: Labels): void {
+    if (labels === undefined) {
+      this.series.clear();
+      return;
+    }
+    const key = this.labelNames.map((name) => String(labels[name])).join("\u0000");
+    this.series.delete(key);
+  }
+
+  protected abstract renderSeries(labelValues: string[], data: TSeries): string[];
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${escapeHelp(this.help)}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const { labelValues, data } of this.series.values()) {
+      lines.push(...this.renderSeries(labelValues, data));
+    }
+    return lines.join("\n");
+  }
+}
+
+class Counter extends Metric<{ value: number }> {
+  readonly type = "counter";
+
+  protected createSeries() {
+    return { value: 0 };
+  }
+
+  /**
+   * @throws Error when value is negative (counters only go up)
+   */
+  inc(labels?: Labels, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter '${this.name}' cannot be decreased`);
+    }
+    this.getSeries(labels).value += value;
+  }
+
+  get(labels?: Labels): number {
+    return this.getSeries(labels).value;
+  }
+
+  protected renderSeries(labelValues: string[], data: { value: number }) {
+    return [`${this.name}${formatLabels(this.labelNames, labelValues)} ${formatValue(data.value)}`];
+  }
+}
+
+class Gauge extends Metric<{ value: number }> {
+  readonly type = "gauge";
+
+  protected createSeries() {
+    return { value: 0 };
+  }
+
+  set(value: number, labels?: Labels): void {
+    this.getSeries(labels).value = value;
+  }
+
+  inc(labels?: Labels, value = 1): void {
+    this.getSeries(labels).value += value;
+  }
+
+  dec(labels?: Labels, value = 1): void {
+    this.getSeries(labels).value -= value;
+  }
+
+  get(labels?: Labels): number {
+    return this.getSeries(labels).value;
+  }
+
+  protected renderSeries(labelValues: string[], data: { value: number }) {
+    return [`${this.name}${formatLabels(this.labelNames, labelValues)} ${formatValue(data.value)}`];
+  }
+}
+
+interface HistogramSeries {
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+class Histogram extends Metric<HistogramSeries> {
+  readonly type = "histogram";
+  readonly buckets: ReadonlyArray<number>;
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: ReadonlyArray<string>,
+    buckets: ReadonlyArray<number> = DEFAULT_BUCKETS,
+  ) {
+    if (labelNames.includes("le")) {
+      throw new Error(`Histogram '${name}' cannot use the reserved label 'le'`);
+    }
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  protected createSeries(): HistogramSeries {
+    return { bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(value: number, labels?: Labels): void {
+    const series = this.getSeries(labels);
+    series.sum += value;
+    series.count++;
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.bucketCounts[i]++;
+    });
+  }
+
+  /**
+   * Snapshot of one series: cumulative bucket counts, sum and count
+   */
+  get(labels?: Labels): { buckets: Array<{ le: number; count: number }>; sum: number; count: number } {
+    const series = this.getSeries(labels);
+    return {
+      buckets: this.buckets.map((le, i) => ({ le, count: series.bucketCounts[i] })),
+      sum: series.sum,
+      count: series.count,
+    };
+  }
+
+  protected renderSeries(labelValues: string[], data: HistogramSeries) {
+    const names = [...this.labelNames, "le"];
+    const lines = this.buckets.map((bound, i) =>
+      `${this.name}_bucket${formatLabels(names, [...labelValues, formatValue(bound)])} ${data.bucketCounts[i]}`
+    );
+    lines.push(
+      `${this.name}_bucket${formatLabels(names, [...labelValues, "+Inf"])} ${data.count}`,
+      `${this.name}_sum${formatLabels(this.labelNames, labelValues)} ${formatValue(data.sum)}`,
+      `${this.name}_count${formatLabels(this.labelNames, labelValues)} ${data.count}`,
+    );
+    return lines;
+  }
+}
+
+/**
+ * Named collection of metrics; names are unique per registry
+ */
+class MetricsRegistry {
+  private readonly metrics = new Map<string, Counter | Gauge | Histogram>();
+  private readonly collectors: Array<() => void> = [];
+
+  /**
+   * Get or create a counter. Re-registering returns the existing metric.
+   */
+  counter(name: string, help: string, labelNames: ReadonlyArray<string> = []): Counter {
+    return this.register(name, "counter", () => new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: ReadonlyArray<string> = []): Gauge {
+    return this.register(name, "gauge", () => new Gauge(name, help, labelNames));
+  }
+
+  /**
+   * @param buckets - Upper bounds (default Prometheus buckets, in seconds)
+   */
+  histogram(
+    name: string,
+    help: string,
+    labelNames: ReadonlyArray<string> = [],
+    buckets?: ReadonlyArray<number>,
+  ): Histogram {
+    return this.register(name, "histogram", () => new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Run `collect` before every render, to refresh gauges computed on demand
+   * (uptime, pool sizes, ...)
+   */
+  onCollect(collect: () => void): void {
+    this.collectors.push(collect);
+  }
+
+  get(name: string): Counter | Gauge | Histogram | undefined {
+    return this.metrics.get(name);
+  }
+
+  /**
+   * Prometheus text exposition of every metric
+   */
+  render(): string {
+    for (const collect of this.collectors) {
+      try {
+        collect();
+      } catch (error) {
+        console.error(`Metrics collector failed: ${String(error)}`);
+      }
+    }
+
+    const blocks = [...this.metrics.values()].map((metric) => metric.render());
+    return blocks.length > 0 ? `${blocks.join("\n")}\n` : "";
+  }
+
+  /**
+   * Remove every metric and collector (tests)
+   */
+  clear(): void {
+    this.metrics.clear();
+    this.collectors.length = 0;
+  }
+
+  private register<T extends Counter | Gauge | Histogram>(
+    name: string,
+    type: MetricType,
+    create: () => T,
+  ): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric '${name}' is already registered as a ${existing.type}`);
+      }
+      return existing as T;
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+const defaultRegistry = new MetricsRegistry();
+
+/**
+ * Registry shared by HealthMiddleware, provider clients and application code
+ */
+function getMetricsRegistry(): MetricsRegistry {
+  return defaultRegistry;
+}
+
+export {
+  Counter,
+  DEFAULT_BUCKETS,
+  Gauge,
+  getMetricsRegistry,
+  Histogram,
+  MetricsRegistry,
+  PROMETHEUS_CONTENT_TYPE,
+};
+export type { Labels, MetricType };
@@ -6,15 +6,37 @@ export * from "./types.ts";
 export * from "./utilities.ts";
 export * from "./logger.ts";
 export * from "./retry.ts";
+export * from "./backoff.ts";
+export * from "./retryable-errors.ts";
+export * from "./circuit-breaker.ts";
+export * from "./bulkhead.ts";
+export * from "./rate-limiter.ts";
+export * from "./hedging.ts";
 export * from "./health-middleware.ts";
+export * from "./health-checks.ts";
+export * from "./sliding-window.ts";
+export * from "./slo.ts";
+export * from "./cluster-health.ts";
+export * from "./metrics.ts";
+export * from "./provider-metrics.ts";
 export * from "./logging-helpers.ts";
 export * from "./http-logging-middleware.ts";
+export * from "./http/mod.ts";
 
 // Correlation and tracing
 export * from "./correlation/mod.ts";
+export * from "./tracing/mod.ts";
 
 // Logging utilities
 export * from "./logging/document-context.ts";
+export * from "./logging/formatters.ts";
+export * from "./logging/sinks.ts";
+export * from "./logging/http-transport.ts";
+export * from "./logging/redaction.ts";
+export * from "./logging/level-registry.ts";
+export * from "./logging/serializers.ts";
+export * from "./logging/sampling.ts";
+export * from "./logging/operations.ts";
 
 // LLM Model Registry (single source of truth)
 export * from "./models/mod.ts";
@@ -3,10 +3,21 @@ import type {
   CostDetails,
   OpenAIResponsesRequest,
   OpenAIResponsesResponse,
+  OpenAIUsage,
   ServiceResponse,
 } from "../types.ts";
-import { assertApiKey } from "../utilities.ts";
+import { assertApiKey, readIntegerEnv } from "../utilities.ts";
+import { getErrorMessage, serializeError } from "../logging/serializers.ts";
+import { recordProviderError, recordProviderUsage } from "../provider-metrics.ts";
 import { calculateOpenAICost } from "./cost-calculator.ts";
+import { CircuitOpenError, getCircuitBreaker } from "../circuit-breaker.ts";
+import { BulkheadRejectedError, getBulkhead } from "../bulkhead.ts";
+import {
+  estimateOpenAITokens,
+  findRateLimiter,
+  type RateLimitReservation,
+  RateLimitExceededError,
+} from "../rate-limiter.ts";
 
 const OPENAI_API_KEY = assertApiKey(
   Deno.env.get("OPENAI_API_KEY"),
@@ -16,6 +27,24 @@ const OPENAI_API_KEY = assertApiKey(
 const OPENAI_BASE_URL =
   Deno.env.get("OPENAI_SERVICE_URL") || "https://api.openai.com/v1";
 
+const OPENAI_MAX_CONCURRENT_REQUESTS = readIntegerEnv(
+  "OPENAI_MAX_CONCURRENT_REQUESTS",
+  20
+);
+const OPENAI_MAX_QUEUED_REQUESTS = readIntegerEnv(
+  "OPENAI_MAX_QUEUED_REQUESTS",
+  200,
+  0
+);
+
+// --- Types ---
+interface OpenAIRequestOptions {
+  /** Higher priority requests leave the concurrency queue first */
+  priority?: number;
+  /** Cancels the request while queued or in flight */
+  signal?: AbortSignal;
+}
+
 // --- Logger ---
 const logger = createLogger("openai-service", { module: "openai" });
 
@@ -33,6 +62,15 @@ const buildOpenAIRequestBody = (req: OpenAIResponsesRequest): string => {
   return JSON.stringify(req);
 };
 
+const estimateOpenAIRequestTokens = (req: OpenAIResponsesRequest): number => {
+  const text = typeof req.input === "string"
+    ? req.input
+    : req.input
+      .flatMap((message) => message.content.map((content) => content.text))
+      .join("\n");
+  return estimateOpenAITokens(text, req.max_tokens ?? 0);
+};
+
 const parseOpenAIResponse = async (
   res: Response
 ): Promise<ServiceResponse<OpenAIResponsesResponse>> => {
@@ -55,24 +93,22 @@ const parseOpenAIResponse = async (
       };
     }
 
-    // Debug log to see actual response structure
+    // Structure only: the response content is user data
     logger.debug("OpenAI API raw JSON response", {
-      keys: Object.keys(json),
+      keys: Object.keys(json).join(","),
       hasId: !!json.id,
       hasObject: !!json.object,
       object: json.object,
       hasUsage: !!json.usage,
-      usageKeys: json.usage ? Object.keys(json.usage) : [],
+      usageKeys: json.usage ? Object.keys(json.usage).join(",") : undefined,
       hasOutput: !!json.output,
       hasOutputText: !!json.output_text,
       hasChoices: !!json.choices,
-      // Log first 500 chars of response to see structure
-      preview: JSON.stringify(json).substring(0, 500),
     });
 
     return { success: true, data: json };
   } catch (err) {
-    logger.error("Failed to parse OpenAI response", { error: String(err) });
+    logger.error("Failed to parse OpenAI response", serializeError(err));
     return {
       success: false,
       error: {
@@ -86,7 +122,54 @@ const parseOpenAIResponse = async (
 // --- Main function ---
 async function openAIResponsesCreate(
   request: OpenAIResponsesRequest,
-  endpoint = `${OPENAI_BASE_URL}/responses`
+  endpoint = `${OPENAI_BASE_URL}/responses`,
+  options: OpenAIRequestOptions = {}
+): Promise<
+  ServiceResponse<OpenAIResponsesResponse & { cost_details: CostDetails }>
+> {
+  const startTime = Date.now();
+
+  let result: ServiceResponse<
+    OpenAIResponsesResponse & { cost_details: CostDetails }
+  >;
+  try {
+    result = await createOpenAIResponse(request, endpoint, options);
+  } catch (error) {
+    recordProviderError("openai", request.model, "EXCEPTION", Date.now() - startTime);
+    throw error;
+  }
+
+  const durationMs = Date.now() - startTime;
+  if (result.success && result.data) {
+    // The Responses API reports input/output tokens, older shapes prompt/completion
+    const usage = result.data.usage as Partial<OpenAIUsage> & {
+      input_tokens?: number;
+      output_tokens?: number;
+      input_tokens_details?: { cached_tokens?: number };
+    };
+    recordProviderUsage("openai", request.model, {
+      inputTokens: usage?.input_tokens ?? usage?.prompt_tokens,
+      outputTokens: usage?.output_tokens ?? usage?.completion_tokens,
+      cachedTokens: usage?.input_tokens_details?.cached_tokens,
+      costUsd: result.data.cost_details.total,
+      durationMs,
+    });
+  } else {
+    recordProviderError(
+      "openai",
+      request.model,
+      result.error?.code ?? "UNKNOWN",
+      durationMs
+    );
+  }
+
+  return result;
+}
+
+async function createOpenAIResponse(
+  request: OpenAIResponsesRequest,
+  endpoint: string,
+  options: OpenAIRequestOptions
 ): Promise<
   ServiceResponse<OpenAIResponsesResponse & { cost_details: CostDetails }>
 > {
@@ -100,36 +183,91 @@ async function openAIResponsesCreate(
   const body = buildOpenAIRequestBody(request);
   const headers = buildOpenAIHeaders(OPENAI_API_KEY);
 
+  const rateLimiter = findRateLimiter("openai", request.model);
+  let reservation: RateLimitReservation | undefined;
+
   let res: Response;
   try {
-    res = await fetch(endpoint, {
-      method: "POST",
-      headers,
-      body,
+    if (rateLimiter) {
+      reservation = await rateLimiter.acquire(
+        estimateOpenAIRequestTokens(request),
+        options.signal
+      );
+    }
+
+    const bulkhead = getBulkhead("openai", {
+      maxConcurrent: OPENAI_MAX_CONCURRENT_REQUESTS,
+      maxQueued: OPENAI_MAX_QUEUED_REQUESTS,
     });
+    res = await bulkhead.run(
+      () =>
+        getCircuitBreaker(`openai:${request.model}`).execute(
+          () =>
+            fetch(endpoint, {
+              method: "POST",
+              headers,
+              body,
+              signal: options.signal,
+            }),
+          {
+            isFailureResult: (response) => response.status >= 500,
+            signal: options.signal,
+          }
+        ),
+      options
+    );
   } catch (err) {
-    logger.error("OpenAI fetch failed", { error: String(err) });
+    // The request never got a usage report, so return its token estimate
+    reservation?.release();
+    if (err instanceof RateLimitExceededError) {
+      return {
+        success: false,
+        error: { code: "RATE_LIMITED", message: err.message },
+      };
+    }
+    if (err instanceof BulkheadRejectedError) {
+      return {
+        success: false,
+        error: { code: "CONCURRENCY_LIMIT", message: err.message },
+      };
+    }
+    if (err instanceof CircuitOpenError) {
+      logger.warn("OpenAI circuit open, skipping request", {
+        model: request.model,
+        retry_after_ms: err.retryAfterMs,
+      });
+      return {
+        success: false,
+        error: { code: "CIRCUIT_OPEN", message: err.message },
+      };
+    }
+    logger.error("OpenAI fetch failed", serializeError(err));
     return {
       success: false,
-      error: { code: "FETCH_ERROR", message: String(err) },
+      error: { code: "FETCH_ERROR", message: getErrorMessage(err) },
     };
   }
 
   const openAIRes = await parseOpenAIResponse(res);
 
   if (!openAIRes.success || !openAIRes.data) {
+    reservation?.release();
     return openAIRes as ServiceResponse<
       OpenAIResponsesResponse & { cost_details: CostDetails }
     >;
   }
 
+  if (reservation && openAIRes.data.usage?.total_tokens) {
+    reservation.reconcile(openAIRes.data.usage.total_tokens);
+  }
+
   // Log the full response for debugging
   logger.debug("OpenAI raw response structure", {
-    responseKeys: Object.keys(openAIRes.data),
+    responseKeys: Object.keys(openAIRes.data).join(","),
     hasOutputText: !!openAIRes.data.output_text,
     hasOutput: !!openAIRes.data.output,
     outputLength: openAIRes.data.output?.length,
-    usage: openAIRes.data.usage,
+    usage: JSON.stringify(openAIRes.data.usage),
   });
 
   // Log detailed usage information
@@ -137,7 +275,9 @@ async function openAIResponsesCreate(
     model: request.model,
     rawUsage: JSON.stringify(openAIRes.data.usage),
     hasUsage: !!openAIRes.data.usage,
-    usageKeys: openAIRes.data.usage ? Object.keys(openAIRes.data.usage) : [],
+    usageKeys: openAIRes.data.usage
+      ? Object.keys(openAIRes.data.usage).join(",")
+      : undefined,
     inputTokens: openAIRes.data.usage?.input_tokens,
     outputTokens: openAIRes.data.usage?.output_tokens,
     totalTokens: openAIRes.data.usage?.total_tokens,
@@ -199,11 +339,13 @@ async function openAIResponsesCreate(
   } catch (error) {
     logger.error("OpenAI cost calculation failed", {
       model: request.model,
-      error: String(error),
-      errorStack: error instanceof Error ? error.stack : undefined,
+      ...serializeError(error),
       mappedUsage: JSON.stringify(mappedUsage),
     });
-    throw new Error(`Cost calculation failed for model ${request.model}: ${String(error)}`);
+    throw new Error(
+      `Cost calculation failed for model ${request.model}: ${getErrorMessage(error)}`,
+      { cause: error }
+    );
   }
 
   logger.info("OpenAI Responses API success", {
@@ -256,3 +398,4 @@ function openAIWebSearch(
 }
 
 export { openAIDeepResearch, openAIResponsesCreate, openAIWebSearch };
+export type { OpenAIRequestOptions };
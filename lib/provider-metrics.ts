@@ -0,0 +1,119 @@
+/**
+ * Token, cost, latency and error metrics for external providers
+ *
+ * The OpenAI and Firecrawl clients publish these automatically. Services
+ * calling other providers (Anthropic, Google, DeepSeek) record them next to
+ * their cost calculation so all providers share the same series:
+ *
+ * - provider_requests_total{provider, model, outcome}
+ * - provider_request_duration_seconds{provider, model}
+ * - provider_tokens_total{provider, model, type="input"|"output"|"cached"}
+ * - provider_cost_usd_total{provider, model}
+ * - provider_errors_total{provider, model, code}
+ *
+ * @example
+ * ```typescript
+ * const cost = calculateAnthropicCost(model, usage);
+ * recordProviderUsage("anthropic", model, {
+ *   inputTokens: usage.input_tokens,
+ *   outputTokens: usage.output_tokens,
+ *   costUsd: cost.total,
+ *   durationMs: Date.now() - start,
+ * });
+ * ```
+ */
+
+import { getMetricsRegistry, type MetricsRegistry } from "./metrics.ts";
+
+export interface ProviderUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedTokens?: number;
+  costUsd?: number;
+  durationMs?: number;
+}
+
+/** Latency buckets sized for LLM calls (seconds) */
+const PROVIDER_DURATION_BUCKETS = [0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+function providerMetrics(registry: MetricsRegistry) {
+  return {
+    requests: registry.counter(
+      "provider_requests_total",
+      "Provider requests by outcome",
+      ["provider", "model", "outcome"]
+    ),
+    duration: registry.histogram(
+      "provider_request_duration_seconds",
+      "Provider request duration",
+      ["provider", "model"],
+      PROVIDER_DURATION_BUCKETS
+    ),
+    tokens: registry.counter(
+      "provider_tokens_total",
+      "Tokens consumed by provider requests",
+      ["provider", "model", "type"]
+    ),
+    cost: registry.counter(
+      "provider_cost_usd_total",
+      "Estimated provider cost in USD",
+      ["provider", "model"]
+    ),
+    errors: registry.counter(
+      "provider_errors_total",
+      "Failed provider requests by error code",
+      ["provider", "model", "code"]
+    ),
+  };
+}
+
+/**
+ * Record a successful provider request
+ */
+export function recordProviderUsage(
+  provider: string,
+  model: string,
+  usage: ProviderUsage,
+  registry: MetricsRegistry = getMetricsRegistry()
+): void {
+  const metrics = providerMetrics(registry);
+  const labels = { provider, model };
+
+  metrics.requests.inc({ ...labels, outcome: "success" });
+  if (usage.durationMs !== undefined) {
+    metrics.duration.observe(usage.durationMs / 1000, labels);
+  }
+  if (usage.inputTokens) {
+    metrics.tokens.inc({ ...labels, type: "input" }, usage.inputTokens);
+  }
+  if (usage.outputTokens) {
+    metrics.tokens.inc({ ...labels, type: "output" }, usage.outputTokens);
+  }
+  if (usage.cachedTokens) {
+    metrics.tokens.inc({ ...labels, type: "cached" }, usage.cachedTokens);
+  }
+  if (usage.costUsd) {
+    metrics.cost.inc(labels, usage.costUsd);
+  }
+}
+
+/**
+ * Record a failed provider request; `code` is the ServiceResponse error
+ * code (RATE_LIMITED, CIRCUIT_OPEN, OPENAI_ERROR_500, ...)
+ */
+export function recordProviderError(
+  provider: string,
+  model: string,
+  code: string,
+  durationMs?: number,
+  registry: MetricsRegistry = getMetricsRegistry()
+): void {
+  const metrics = providerMetrics(registry);
+  const labels = { provider, model };
+
+  metrics.requests.inc({ ...labels, outcome: "failure" });
+  metrics.errors.inc({ ...labels, code });
+  if (durationMs !== undefined) {
+    metrics.duration.observe(durationMs / 1000, labels);
+  }
+}
@@ -0,0 +1,431 @@
+/**
+ * Client-side rate limiting for provider RPM/TPM limits
+ *
+ * Each limiter holds two token buckets: one for requests per minute and one
+ * for tokens per minute. A call reserves its estimated token count up front
+ * and reconciles with the actual usage reported by the provider afterward,
+ * refunding over-estimates and charging under-estimates. Calls that fail
+ * release their token reservation; the request itself still counts.
+ *
+ * @example Configure limits per provider and model
+ * ```typescript
+ * configureRateLimits({
+ *   openai: {
+ *     default: { requestsPerMinute: 500, tokensPerMinute: 200_000 },
+ *     models: {
+ *       [OPENAI_MODEL_ID.GPT_5_5_PRO]: { requestsPerMinute: 50, tokensPerMinute: 30_000 },
+ *     },
+ *   },
+ * });
+ *
+ * const limiter = getRateLimiter("openai", OPENAI_MODEL_ID.GPT_5_5);
+ * const response = await limiter.run(
+ *   estimateOpenAITokens(prompt, 2000),
+ *   () => callOpenAI(prompt),
+ *   (res) => res.usage ? getUsageTotalTokens(res.usage) : undefined,
+ * );
+ * ```
+ */
+
+import { createLogger } from "./logger.ts";
+import type { AnthropicUsage, OpenAIUsage } from "./types.ts";
+import type { LLMProvider } from "./models/types.ts";
+import { isValidModelId } from "./models/mod.ts";
+import { countTokensAnthropic, countTokensOpenAI } from "./token-counting/mod.ts";
+
+const logger = createLogger("rate-limiter", { module: "rate-limiter" });
+
+interface RateLimitConfig {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+interface RateLimiterOptions extends RateLimitConfig {
+  /** "wait" sleeps until budget is available, "fail_fast" throws immediately (default "wait") */
+  mode?: "wait" | "fail_fast";
+  /** In wait mode, throw instead of waiting longer than this */
+  maxWaitMs?: number;
+}
+
+interface ProviderRateLimitConfig {
+  /** Limits for every model of the provider without an explicit entry */
+  default?: RateLimiterOptions;
+  /** Per-model limits, keyed by model ID from the model registry */
+  models?: Record<string, RateLimiterOptions>;
+}
+
+type RateLimitsConfig = Partial<Record<LLMProvider, ProviderRateLimitConfig>>;
+
+type RateLimitDimension = "requests" | "tokens";
+
+class RateLimitExceededError extends Error {
+  readonly limiterName: string;
+  readonly dimension: RateLimitDimension;
+  readonly retryAfterMs: number;
+
+  constructor(
+    limiterName: string,
+    dimension: RateLimitDimension,
+    retryAfterMs: number,
+  ) {
+    super(
+      `Rate limit '${limiterName}' exhausted (${dimension}); retry after ${retryAfterMs}ms`,
+    );
+    this.name = "RateLimitExceededError";
+    this.limiterName = limiterName;
+    this.dimension = dimension;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+class TokenBucket {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private available: number;
+  private lastRefill: number;
+
+  constructor(perMinute: number) {
+    this.capacity = perMinute;
+    this.refillPerMs = perMinute / 60_000;
+    this.available = perMinute;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Milliseconds until `amount` can be taken. Amounts above capacity only
+   * wait for a full bucket and then run into debt.
+   */
+  waitTimeMs(amount: number, now: number): number {
+    this.refill(now);
+    const needed = Math.min(amount, this.capacity) - this.available;
+    return needed <= 0 ? 0 : Math.ceil(needed / this.refillPerMs);
+  }
+
+  take(amount: number): void {
+    this.available -= amount;
+  }
+
+  refund(amount: number): void {
+    this.available = Math.min(this.capacity, this.available + amount);
+  }
+
+  remaining(now: number): number {
+    this.refill(now);
+    return Math.floor(this.available);
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.lastRefill;
+    if (elapsed > 0) {
+      this.available = Math.min(
+        this.capacity,
+        this.available + elapsed * this.refillPerMs,
+      );
+      this.lastRefill = now;
+    }
+  }
+}
+
+/**
+ * A granted reservation; call reconcile() once actual usage is known, or
+ * release() when the call failed. Only the first call has an effect.
+ */
+interface RateLimitReservation {
+  readonly estimatedTokens: number;
+  reconcile(actualTokens: number): void;
+  /** Refund the reserved tokens; the request still counts toward the RPM limit */
+  release(): void;
+}
+
+/**
+ * Limits must be positive: a zero or negative bucket never refills and
+ * would block (or fail) every call
+ */
+function validateRateLimitOptions(name: string, options: RateLimitConfig): void {
+  for (
+    const [option, value] of [
+      ["requestsPerMinute", options.requestsPerMinute],
+      ["tokensPerMinute", options.tokensPerMinute],
+    ] as const
+  ) {
+    if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+      throw new Error(
+        `Rate limit '${name}': ${option} must be a positive number, got ${value}`,
+      );
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+class RateLimiter {
+  readonly name: string;
+  private readonly requestBucket?: TokenBucket;
+  private readonly tokenBucket?: TokenBucket;
+  private readonly mode: "wait" | "fail_fast";
+  private readonly maxWaitMs: number;
+
+  constructor(name: string, options: RateLimiterOptions) {
+    validateRateLimitOptions(name, options);
+    this.name = name;
+    this.mode = options.mode ?? "wait";
+    this.maxWaitMs = options.maxWaitMs ?? Number.POSITIVE_INFINITY;
+    if (options.requestsPerMinute !== undefined) {
+      this.requestBucket = new TokenBucket(options.requestsPerMinute);
+    }
+    if (options.tokensPerMinute !== undefined) {
+      this.tokenBucket = new TokenBucket(options.tokensPerMinute);
+    }
+  }
+
+  /**
+   * Reserve one request and `estimatedTokens` tokens, waiting if needed
+   * @throws RateLimitExceededError in fail_fast mode or when the wait exceeds maxWaitMs
+   */
+  async acquire(
+    estimatedTokens: number,
+    signal?: AbortSignal,
+  ): Promise<RateLimitReservation> {
+    const startTime = Date.now();
+
+    while (true) {
+      const now = Date.now();
+      const requestWait = this.requestBucket?.waitTimeMs(1, now) ?? 0;
+      const tokenWait = this.tokenBucket?.waitTimeMs(estimatedTokens, now) ??
+        0;
+      const waitMs = Math.max(requestWait, tokenWait);
+
+      if (waitMs === 0) {
+        this.requestBucket?.take(1);
+        this.tokenBucket?.take(estimatedTokens);
+        return this.createReservation(estimatedTokens);
+      }
+
+      const dimension: RateLimitDimension = tokenWait > requestWait
+        ? "tokens"
+        : "requests";
+
+      if (
+        this.mode === "fail_fast" ||
+        now - startTime + waitMs > this.maxWaitMs
+      ) {
+        logger.warn(`Rate limit '${this.name}' exhausted`, {
+          operation: "rate_limit_rejected",
+          limiter_name: this.name,
+          dimension,
+          retry_after_ms: waitMs,
+          estimated_tokens: estimatedTokens,
+        });
+        throw new RateLimitExceededError(this.name, dimension, waitMs);
+      }
+
+      logger.debug(`Rate limit '${this.name}' waiting`, {
+        operation: "rate_limit_wait",
+        limiter_name: this.name,
+        dimension,
+        wait_ms: waitMs,
+        estimated_tokens: estimatedTokens,
+      });
+
+      await sleep(waitMs, signal);
+    }
+  }
+
+  /**
+   * Reserve budget, run `fn`, then reconcile with the actual token usage
+   * extracted from its result (skipped when `getActualTokens` returns
+   * undefined). The reservation is released when `fn` throws.
+   */
+  async run<T>(
+    estimatedTokens: number,
+    fn: () => Promise<T>,
+    getActualTokens?: (result: T) => number | undefined,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const reservation = await this.acquire(estimatedTokens, signal);
+
+    let result: T;
+    try {
+      result = await fn();
+    } catch (error) {
+      reservation.release();
+      throw error;
+    }
+
+    const actualTokens = getActualTokens?.(result);
+    if (actualTokens !== undefined) {
+      reservation.reconcile(actualTokens);
+    }
+
+    return result;
+  }
+
+  getRemaining(): { requests?: number; tokens?: number } {
+    const now = Date.now();
+    const remaining: { requests?: number; tokens?: number } = {};
+    if (this.requestBucket) {
+      remaining.requests = this.requestBucket.remaining(now);
+    }
+    if (this.tokenBucket) {
+      remaining.tokens = this.tokenBucket.remaining(now);
+    }
+    return remaining;
+  }
+
+  private createReservation(estimatedTokens: number): RateLimitReservation {
+    let settled = false;
+
+    return {
+      estimatedTokens,
+      reconcile: (actualTokens: number) => {
+        if (settled || !this.tokenBucket) return;
+        settled = true;
+
+        const difference = actualTokens - estimatedTokens;
+        if (difference > 0) {
+          this.tokenBucket.take(difference);
+        } else if (difference < 0) {
+          this.tokenBucket.refund(-difference);
+        }
+
+        logger.trace(`Rate limit '${this.name}' reconciled`, {
+          operation: "rate_limit_reconcile",
+          limiter_name: this.name,
+          estimated_tokens: estimatedTokens,
+          actual_tokens: actualTokens,
+        });
+      },
+      release: () => {
+        if (settled || !this.tokenBucket) return;
+        settled = true;
+
+        this.tokenBucket.refund(estimatedTokens);
+        logger.trace(`Rate limit '${this.name}' released`, {
+          operation: "rate_limit_release",
+          limiter_name: this.name,
+          estimated_tokens: estimatedTokens,
+        });
+      },
+    };
+  }
+}
+
+let rateLimitsConfig: RateLimitsConfig = {};
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * Set provider/model limits. Model keys must exist in the model registry.
+ * Replaces any previous configuration and existing limiters.
+ */
+function configureRateLimits(config: RateLimitsConfig): void {
+  for (const [provider, providerConfig] of Object.entries(config)) {
+    if (providerConfig?.default) {
+      validateRateLimitOptions(`${provider}:default`, providerConfig.default);
+    }
+    for (
+      const [modelId, options] of Object.entries(providerConfig?.models ?? {})
+    ) {
+      if (!isValidModelId(modelId, provider as LLMProvider)) {
+        throw new Error(
+          `Unknown ${provider} model '${modelId}' in rate limit configuration`,
+        );
+      }
+      validateRateLimitOptions(`${provider}:${modelId}`, options);
+    }
+  }
+
+  rateLimitsConfig = config;
+  limiters.clear();
+}
+
+/**
+ * Get the limiter for a provider and model, or undefined if neither the
+ * model nor the provider default has limits configured
+ */
+function findRateLimiter(
+  provider: LLMProvider,
+  modelId: string,
+): RateLimiter | undefined {
+  const key = `${provider}:${modelId}`;
+  const existing = limiters.get(key);
+  if (existing) return existing;
+
+  const providerConfig = rateLimitsConfig[provider];
+  const options = providerConfig?.models?.[modelId] ?? providerConfig?.default;
+  if (!options) return undefined;
+
+  const limiter = new RateLimiter(key, options);
+  limiters.set(key, limiter);
+  return limiter;
+}
+
+/**
+ * Like findRateLimiter, but throws when no limits are configured
+ */
+function getRateLimiter(provider: LLMProvider, modelId: string): RateLimiter {
+  const limiter = findRateLimiter(provider, modelId);
+  if (!limiter) {
+    throw new Error(
+      `No rate limits configured for ${provider} model '${modelId}'`,
+    );
+  }
+  return limiter;
+}
+
+/**
+ * Estimate tokens for an OpenAI call: prompt tokens plus expected output
+ */
+function estimateOpenAITokens(prompt: string, maxOutputTokens = 0): number {
+  return countTokensOpenAI(prompt) + maxOutputTokens;
+}
+
+/**
+ * Estimate tokens for an Anthropic call: prompt tokens plus expected output
+ */
+function estimateAnthropicTokens(prompt: string, maxOutputTokens = 0): number {
+  return countTokensAnthropic(prompt) + maxOutputTokens;
+}
+
+/**
+ * Total tokens billed for a call, from either provider's usage shape
+ */
+function getUsageTotalTokens(usage: OpenAIUsage | AnthropicUsage): number {
+  if ("total_tokens" in usage) {
+    return usage.total_tokens;
+  }
+  return usage.input_tokens + usage.output_tokens;
+}
+
+export {
+  configureRateLimits,
+  estimateAnthropicTokens,
+  estimateOpenAITokens,
+  findRateLimiter,
+  getRateLimiter,
+  getUsageTotalTokens,
+  RateLimiter,
+  RateLimitExceededError,
+};
+export type {
+  ProviderRateLimitConfig,
+  RateLimitConfig,
+  RateLimiterOptions,
+  RateLimitReservation,
+  RateLimitsConfig,
+};
@@ -1,92 +1,333 @@
 import { createLogger } from "./logger.ts";
+import { type BackoffPolicy, fixedBackoff } from "./backoff.ts";
+import { getRetryAfterMs, isRetryableError } from "./retryable-errors.ts";
+import { type CircuitBreaker, CircuitOpenError } from "./circuit-breaker.ts";
 
 const logger = createLogger("retry", { module: "retry" });
 
+/**
+ * Why withRetry stopped retrying
+ * - attempts_exhausted: every attempt allowed by the policy failed
+ * - max_elapsed_exceeded: the next sleep would exceed the policy's time budget
+ * - non_retryable: shouldRetry rejected the error
+ */
+export type RetryExhaustedReason =
+  | "attempts_exhausted"
+  | "max_elapsed_exceeded"
+  | "non_retryable";
+
+/**
+ * Why withRetry was cancelled
+ * - aborted: the caller's AbortSignal fired
+ * - deadline_exceeded: the overall deadline passed (or would pass before the next attempt)
+ */
+export type RetryCancelReason = "aborted" | "deadline_exceeded";
+
+export interface RetryOptions {
+  /**
+   * Decide whether a failed attempt should be retried.
+   * Defaults to isRetryableError (4xx other than 408/425/429 are not retried).
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /**
+   * Wait at least as long as a Retry-After header asks (default true),
+   * capped at the policy's maxDelayMs. A wait that would reach deadlineMs
+   * cancels the loop instead of sleeping.
+   */
+  respectRetryAfter?: boolean;
+  /** Cancels the retry loop, including any in-flight attempt and sleep */
+  signal?: AbortSignal;
+  /** Overall time budget in milliseconds for all attempts and sleeps */
+  deadlineMs?: number;
+  /** Abort an individual attempt after this many milliseconds (retryable) */
+  attemptTimeoutMs?: number;
+  /**
+   * Run every attempt through this breaker. An open circuit stops the
+   * loop immediately with reason "non_retryable".
+   */
+  circuitBreaker?: CircuitBreaker;
+}
+
 export class RetryExhaustedError extends Error {
   readonly attempts: number;
   readonly operationName: string;
   readonly attemptErrors: string[];
+  readonly reason: RetryExhaustedReason;
 
   constructor(
     operationName: string,
     attempts: number,
     attemptErrors: string[],
-    lastError: Error
+    lastError: Error,
+    reason: RetryExhaustedReason = "attempts_exhausted"
   ) {
     const errorHistory = attemptErrors
       .map((err, i) => `Attempt ${i + 1}: ${err}`)
       .join(" | ");
 
-    super(
-      `${operationName} failed after ${attempts} attempts. Errors: ${errorHistory}`
-    );
+    const summary = reason === "non_retryable"
+      ? `${operationName} failed with a non-retryable error after ${attempts} attempts`
+      : `${operationName} failed after ${attempts} attempts`;
+
+    super(`${summary}. Errors: ${errorHistory}`);
 
     this.name = "RetryExhaustedError";
     this.operationName = operationName;
     this.attempts = attempts;
     this.attemptErrors = attemptErrors;
+    this.reason = reason;
     this.cause = lastError;
   }
 }
 
+export class RetryCancelledError extends Error {
+  readonly attempts: number;
+  readonly operationName: string;
+  readonly attemptErrors: string[];
+  readonly reason: RetryCancelReason;
+
+  constructor(
+    operationName: string,
+    attempts: number,
+    attemptErrors: string[],
+    reason: RetryCancelReason,
+    cause?: unknown
+  ) {
+    const summary = reason === "deadline_exceeded"
+      ? `${operationName} exceeded its deadline after ${attempts} attempts`
+      : `${operationName} was cancelled after ${attempts} attempts`;
+
+    super(summary);
+
+    this.name = "RetryCancelledError";
+    this.operationName = operationName;
+    this.attempts = attempts;
+    this.attemptErrors = attemptErrors;
+    this.reason = reason;
+    this.cause = cause;
+  }
+}
+
+function abortableDelay(delayMs: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `fn`, retrying on failure according to a backoff policy.
+ *
+ * @param fn - Operation to run
+ * @param backoff - Either a fixed delay array (e.g. `[1000, 2000, 4000]`)
+ *   or a BackoffPolicy such as `exponentialBackoff({ ... })`
+ * @param operationName - Name used in logs and in RetryExhaustedError
+ * @param options - Retry classification, Retry-After handling and cancellation
+ *
+ * `fn` receives an AbortSignal for the current attempt. It fires when the
+ * caller's signal aborts, the overall deadline passes, or the attempt
+ * timeout elapses; pass it to fetch() so in-flight requests stop too.
+ *
+ * @throws RetryExhaustedError when retries are used up or the error is not retryable
+ * @throws RetryCancelledError when the signal aborts or the deadline passes
+ */
 export async function withRetry<T>(
-  fn: () => Promise<T>,
-  delays: number[],
-  operationName: string
+  fn: (signal: AbortSignal) => Promise<T>,
+  backoff: number[] | BackoffPolicy,
+  operationName: string,
+  options: RetryOptions = {}
 ): Promise<T> {
-  const totalAttempts = delays.length + 1;
+  const {
+    shouldRetry = isRetryableError,
+    respectRetryAfter = true,
+    signal,
+    deadlineMs,
+    attemptTimeoutMs,
+    circuitBreaker,
+  } = options;
+  const policy = Array.isArray(backoff) ? fixedBackoff(backoff) : backoff;
+  const totalAttempts = policy.maxRetries + 1;
   const attemptErrors: string[] = [];
+  const startTime = Date.now();
+  let previousDelayMs = 0;
+  let attemptsMade = 0;
 
-  for (let attempt = 1; attempt <= totalAttempts; attempt++) {
-    const isLastAttempt = attempt === totalAttempts;
+  // Internal controller combining the caller's signal and the deadline
+  const operation = new AbortController();
+  let cancelReason: RetryCancelReason = "aborted";
+  const onCallerAbort = () => operation.abort(signal?.reason);
+  signal?.addEventListener("abort", onCallerAbort, { once: true });
+  if (signal?.aborted) {
+    operation.abort(signal.reason);
+  }
 
-    try {
-      const result = await fn();
+  const deadlineTimer = deadlineMs !== undefined
+    ? setTimeout(() => {
+      cancelReason = "deadline_exceeded";
+      operation.abort(
+        new DOMException(
+          `${operationName} exceeded deadline of ${deadlineMs}ms`,
+          "TimeoutError"
+        )
+      );
+    }, deadlineMs)
+    : undefined;
 
-      if (attempt > 1) {
-        logger.info(`${operationName} succeeded after retry`, {
-          operation: "retry_success",
-          operation_name: operationName,
-          successful_attempt: attempt,
-          total_attempts: attempt,
-          previous_errors: attemptErrors.join(" | "),
-        });
-      }
+  const cancelled = (reason: RetryCancelReason): RetryCancelledError => {
+    logger.warn(`${operationName} cancelled`, {
+      operation: "retry_cancelled",
+      operation_name: operationName,
+      attempts: attemptsMade,
+      reason,
+      elapsed_ms: Date.now() - startTime,
+      error_history: attemptErrors.join(" | "),
+    });
 
-      return result;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      attemptErrors.push(errorMessage);
+    return new RetryCancelledError(
+      operationName,
+      attemptsMade,
+      attemptErrors,
+      reason,
+      operation.signal.reason
+    );
+  };
 
-      if (isLastAttempt) {
-        logger.error(`${operationName} failed after all retries`, {
-          operation: "retry_exhausted",
-          operation_name: operationName,
-          attempts: attempt,
-          error_history: attemptErrors.join(" | "),
-        });
+  try {
+    for (let attempt = 1; attempt <= totalAttempts; attempt++) {
+      const isLastAttempt = attempt === totalAttempts;
 
-        throw new RetryExhaustedError(
-          operationName,
-          attempt,
-          attemptErrors,
-          error instanceof Error ? error : new Error(errorMessage)
-        );
+      if (operation.signal.aborted) {
+        throw cancelled(cancelReason);
       }
 
-      const delayMs = delays[attempt - 1];
+      const attemptSignal = attemptTimeoutMs !== undefined
+        ? AbortSignal.any([
+          operation.signal,
+          AbortSignal.timeout(attemptTimeoutMs),
+        ])
+        : operation.signal;
+
+      try {
+        attemptsMade = attempt;
+        const result = circuitBreaker
+          ? await circuitBreaker.execute(() => fn(attemptSignal), {
+            signal: attemptSignal,
+          })
+          : await fn(attemptSignal);
+
+        if (attempt > 1) {
+          logger.info(`${operationName} succeeded after retry`, {
+            operation: "retry_success",
+            operation_name: operationName,
+            successful_attempt: attempt,
+            total_attempts: attempt,
+            previous_errors: attemptErrors.join(" | "),
+          });
+        }
 
-      logger.warn(`${operationName} failed, retrying`, {
-        operation: "retry_attempt_failed",
-        operation_name: operationName,
-        attempt,
-        max_attempts: totalAttempts,
-        delay_ms: delayMs,
-        error_message: errorMessage,
-      });
+        return result;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        attemptErrors.push(errorMessage);
 
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
+        if (operation.signal.aborted) {
+          throw cancelled(cancelReason);
+        }
+
+        const retryable = !(error instanceof CircuitOpenError) &&
+          shouldRetry(error, attempt);
+        const elapsedMs = Date.now() - startTime;
+        const requestedRetryAfterMs = respectRetryAfter
+          ? getRetryAfterMs(error)
+          : undefined;
+        const retryAfterMs = requestedRetryAfterMs === undefined
+          ? undefined
+          : Math.min(
+            requestedRetryAfterMs,
+            policy.maxDelayMs ?? Number.POSITIVE_INFINITY,
+            deadlineMs !== undefined
+              ? Math.max(0, deadlineMs - elapsedMs)
+              : Number.POSITIVE_INFINITY,
+          );
+        const computedDelayMs = isLastAttempt || !retryable
+          ? 0
+          : policy.computeDelay(attempt, previousDelayMs);
+        const delayMs = Math.max(computedDelayMs, retryAfterMs ?? 0);
+        const exceedsElapsedBudget = policy.maxElapsedMs !== undefined &&
+          elapsedMs + delayMs > policy.maxElapsedMs;
+
+        if (
+          retryable && !isLastAttempt && deadlineMs !== undefined &&
+          elapsedMs + delayMs >= deadlineMs
+        ) {
+          throw cancelled("deadline_exceeded");
+        }
+
+        if (isLastAttempt || !retryable || exceedsElapsedBudget) {
+          const reason: RetryExhaustedReason = !retryable
+            ? "non_retryable"
+            : isLastAttempt
+            ? "attempts_exhausted"
+            : "max_elapsed_exceeded";
+
+          const logMessage = reason === "non_retryable"
+            ? `${operationName} failed with non-retryable error`
+            : `${operationName} failed after all retries`;
+
+          logger.error(logMessage, {
+            operation: "retry_exhausted",
+            operation_name: operationName,
+            attempts: attempt,
+            backoff_policy: policy.name,
+            elapsed_ms: elapsedMs,
+            reason,
+            error_history: attemptErrors.join(" | "),
+          });
+
+          throw new RetryExhaustedError(
+            operationName,
+            attempt,
+            attemptErrors,
+            error instanceof Error ? error : new Error(errorMessage),
+            reason
+          );
+        }
+
+        logger.warn(`${operationName} failed, retrying`, {
+          operation: "retry_attempt_failed",
+          operation_name: operationName,
+          attempt,
+          max_attempts: totalAttempts,
+          backoff_policy: policy.name,
+          delay_ms: delayMs,
+          retry_after_ms: retryAfterMs,
+          error_message: errorMessage,
+        });
+
+        previousDelayMs = delayMs;
+        try {
+          await abortableDelay(delayMs, operation.signal);
+        } catch {
+          throw cancelled(cancelReason);
+        }
+      }
     }
+  } finally {
+    clearTimeout(deadlineTimer);
+    signal?.removeEventListener("abort", onCallerAbort);
   }
 
   throw new Error(`${operationName}: unreachable code in retry loop`);
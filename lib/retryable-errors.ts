@@ -0,0 +1,227 @@
+/**
+ * Retryable-error classification for withRetry
+ *
+ * Decides whether a thrown error is worth retrying:
+ * - HTTP 408, 425, 429 and 5xx are retryable, other 4xx are not
+ * - Network failures (connection refused/reset, DNS, fetch TypeError) are retryable
+ * - Failed ServiceResponse envelopes are classified by `error.statusCode`;
+ *   without one they are unclassified
+ * - Anything unclassified is retryable, matching the historical behavior
+ *
+ * Errors can also carry `Retry-After` / `retry-after-ms` headers, which
+ * withRetry honors when computing the next delay.
+ */
+
+import type { ServiceResponse } from "./types.ts";
+
+const RETRYABLE_4XX_STATUSES = new Set([408, 425, 429]);
+
+const NETWORK_ERROR_NAMES = new Set([
+  "AddrNotAvailable",
+  "BrokenPipe",
+  "ConnectionAborted",
+  "ConnectionRefused",
+  "ConnectionReset",
+  "NotConnected",
+  "TimedOut",
+  "TimeoutError",
+]);
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EPIPE",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "FETCH_ERROR",
+]);
+
+type HeaderSource = Headers | Record<string, string | undefined>;
+
+/**
+ * Error thrown for a failed ServiceResponse so it can flow through withRetry
+ *
+ * @example
+ * ```typescript
+ * const result = await withRetry(async () => {
+ *   const res = await openAIResponsesCreate(request);
+ *   if (!res.success) throw new ServiceResponseError(res);
+ *   return res.data;
+ * }, exponentialBackoff({ initialDelayMs: 1000 }), "openai_responses");
+ * ```
+ */
+class ServiceResponseError extends Error {
+  readonly code: string;
+  readonly statusCode?: number;
+  readonly headers?: HeaderSource;
+  readonly response: ServiceResponse;
+
+  constructor(response: ServiceResponse, headers?: HeaderSource) {
+    super(response.error?.message ?? "Service call failed");
+    this.name = "ServiceResponseError";
+    this.code = response.error?.code ?? "UNKNOWN_ERROR";
+    this.response = response;
+    if (response.error?.statusCode !== undefined) {
+      this.statusCode = response.error.statusCode;
+    }
+    if (headers !== undefined) {
+      this.headers = headers;
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isRetryableStatus(status: number): boolean {
+  if (status >= 500) return true;
+  if (status >= 400) return RETRYABLE_4XX_STATUSES.has(status);
+  return false;
+}
+
+/**
+ * Read an HTTP status code from the common places errors carry one:
+ * `status`, `statusCode`, `response.status`, or a thrown ServiceResponse's
+ * `error.statusCode`.
+ */
+function getErrorStatusCode(error: unknown): number | undefined {
+  if (!isRecord(error)) return undefined;
+
+  if (typeof error.statusCode === "number") return error.statusCode;
+  if (typeof error.status === "number") return error.status;
+
+  if (isRecord(error.response) && typeof error.response.status === "number") {
+    return error.response.status;
+  }
+
+  if (isRecord(error.error) && typeof error.error.statusCode === "number") {
+    return error.error.statusCode;
+  }
+
+  return undefined;
+}
+
+function isNetworkError(error: unknown): boolean {
+  if (!isRecord(error)) return false;
+
+  if (typeof error.name === "string" && NETWORK_ERROR_NAMES.has(error.name)) {
+    return true;
+  }
+
+  if (typeof error.code === "string" && NETWORK_ERROR_CODES.has(error.code)) {
+    return true;
+  }
+
+  // fetch() rejects with a TypeError for connection-level failures
+  if (error instanceof TypeError) {
+    const message = error.message.toLowerCase();
+    return message.includes("fetch") ||
+      message.includes("network") ||
+      message.includes("connect") ||
+      message.includes("error sending request");
+  }
+
+  return false;
+}
+
+/**
+ * Classify a failed ServiceResponse envelope
+ */
+function isRetryableServiceResponse(response: ServiceResponse): boolean {
+  if (response.success) return false;
+
+  const statusCode = response.error?.statusCode;
+  if (statusCode !== undefined) {
+    return isRetryableStatus(statusCode);
+  }
+
+  // Without a status code the failure is unclassified (network errors,
+  // FETCH_ERROR, parse failures); retry, as for thrown errors
+  return true;
+}
+
+/**
+ * Default shouldRetry predicate for withRetry
+ */
+function isRetryableError(error: unknown): boolean {
+  if (isNetworkError(error)) return true;
+
+  if (error instanceof ServiceResponseError) {
+    return isRetryableServiceResponse(error.response);
+  }
+
+  const statusCode = getErrorStatusCode(error);
+  if (statusCode !== undefined) {
+    return isRetryableStatus(statusCode);
+  }
+
+  return true;
+}
+
+function readHeader(headers: HeaderSource, name: string): string | undefined {
+  if (headers instanceof Headers) {
+    return headers.get(name) ?? undefined;
+  }
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key !== undefined ? headers[key] : undefined;
+}
+
+function getErrorHeaders(error: unknown): HeaderSource | undefined {
+  if (!isRecord(error)) return undefined;
+
+  if (error.headers instanceof Headers) return error.headers;
+  if (isRecord(error.headers)) {
+    return error.headers as Record<string, string | undefined>;
+  }
+  if (isRecord(error.response) && error.response.headers instanceof Headers) {
+    return error.response.headers;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse `retry-after-ms` (milliseconds) or `Retry-After` (seconds or
+ * HTTP-date) from headers carried by an error.
+ *
+ * @returns Delay in milliseconds, or undefined if no usable header is present
+ */
+function getRetryAfterMs(error: unknown, now = Date.now()): number | undefined {
+  const headers = getErrorHeaders(error);
+  if (headers === undefined) return undefined;
+
+  const retryAfterMs = readHeader(headers, "retry-after-ms");
+  if (retryAfterMs !== undefined) {
+    const ms = Number(retryAfterMs);
+    if (Number.isFinite(ms) && ms >= 0) return Math.ceil(ms);
+  }
+
+  const retryAfter = readHeader(headers, "retry-after");
+  if (retryAfter === undefined) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.ceil(seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+export {
+  getErrorStatusCode,
+  getRetryAfterMs,
+  isNetworkError,
+  isRetryableError,
+  isRetryableServiceResponse,
+  isRetryableStatus,
+  ServiceResponseError,
+};
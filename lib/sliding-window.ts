@@ -0,0 +1,186 @@
+/**
+ * Sliding-window request statistics with a bucketed latency histogram
+ *
+ * The window is split into fixed time slices. Each slice keeps counts and
+ * a log-bucketed latency histogram, so recording is O(1), memory is fixed
+ * (slices x buckets) regardless of traffic, and percentiles are estimated by
+ * interpolating within a bucket (relative error under ~10%).
+ *
+ * Success rate and latency are computed over the same window, so a burst
+ * of failures ages out once it leaves the window.
+ *
+ * @example
+ * ```typescript
+ * const window = new SlidingWindowStats({ windowMs: 5 * 60 * 1000 });
+ * window.record(120, true);
+ * const { successRate, p95 } = window.snapshot();
+ * ```
+ */
+
+export interface SlidingWindowOptions {
+  /** Window length (default 5 minutes) */
+  windowMs?: number;
+  /** Number of time slices; more slices expire data more smoothly (default 30) */
+  slices?: number;
+}
+
+export interface WindowSnapshot {
+  count: number;
+  successes: number;
+  /** Percentage 0-100; 100 when the window is empty */
+  successRate: number;
+  avg: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+interface Slice {
+  /** Slice index (start time / slice length); -1 when unused */
+  index: number;
+  count: number;
+  successes: number;
+  sum: number;
+  max: number;
+  buckets: Uint32Array;
+}
+
+const DEFAULT_WINDOW_MS = 5 * 60 * 1000;
+const DEFAULT_SLICES = 30;
+
+/** Bucket upper bounds in ms: 1ms growing 20% per bucket up to ~5 minutes */
+const LATENCY_BOUNDS: ReadonlyArray<number> = (() => {
+  const bounds: number[] = [];
+  for (let bound = 1; bound < 300_000; bound *= 1.2) {
+    bounds.push(bound);
+  }
+  return bounds;
+})();
+const LOG_GROWTH = Math.log(1.2);
+
+function bucketIndex(value: number): number {
+  let index = Math.max(0, Math.ceil(Math.log(Math.max(value, 1)) / LOG_GROWTH));
+  // Correct floating point drift against the accumulated bounds
+  while (index > 0 && value <= LATENCY_BOUNDS[index - 1]) index--;
+  while (index < LATENCY_BOUNDS.length && value > LATENCY_BOUNDS[index]) index++;
+  return index;
+}
+
+/**
+ * Request counts and latency distribution over a trailing time window
+ */
+export class SlidingWindowStats {
+  readonly windowMs: number;
+  private readonly sliceMs: number;
+  private readonly slices: Slice[];
+
+  constructor(options: SlidingWindowOptions = {}) {
+    this.windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+    const sliceCount = Math.max(1, options.slices ?? DEFAULT_SLICES);
+    this.sliceMs = Math.max(1, Math.floor(this.windowMs / sliceCount));
+    this.slices = Array.from({ length: sliceCount }, () => ({
+      index: -1,
+      count: 0,
+      successes: 0,
+      sum: 0,
+      max: 0,
+      // Last bucket holds values above the largest bound
+      buckets: new Uint32Array(LATENCY_BOUNDS.length + 1),
+    }));
+  }
+
+  record(durationMs: number, success: boolean, now = Date.now()): void {
+    const slice = this.currentSlice(now);
+    const value = Math.max(0, durationMs);
+
+    slice.count++;
+    if (success) slice.successes++;
+    slice.sum += value;
+    slice.max = Math.max(slice.max, value);
+    slice.buckets[bucketIndex(value)]++;
+  }
+
+  snapshot(now = Date.now()): WindowSnapshot {
+    const oldestIndex = Math.floor(now / this.sliceMs) - this.slices.length + 1;
+    const buckets = new Uint32Array(LATENCY_BOUNDS.length + 1);
+    let count = 0;
+    let successes = 0;
+    let sum = 0;
+    let max = 0;
+
+    for (const slice of this.slices) {
+      if (slice.index < oldestIndex || slice.count === 0) continue;
+      count += slice.count;
+      successes += slice.successes;
+      sum += slice.sum;
+      max = Math.max(max, slice.max);
+      for (let i = 0; i < buckets.length; i++) {
+        buckets[i] += slice.buckets[i];
+      }
+    }
+
+    const percentile = (p: number) => estimatePercentile(buckets, count, p, max);
+    return {
+      count,
+      successes,
+      successRate: count > 0 ? (successes / count) * 100 : 100,
+      avg: count > 0 ? sum / count : 0,
+      p50: percentile(50),
+      p95: percentile(95),
+      p99: percentile(99),
+      max,
+    };
+  }
+
+  clear(): void {
+    for (const slice of this.slices) {
+      this.resetSlice(slice, -1);
+    }
+  }
+
+  private currentSlice(now: number): Slice {
+    const index = Math.floor(now / this.sliceMs);
+    const slice = this.slices[index % this.slices.length];
+    if (slice.index !== index) {
+      this.resetSlice(slice, index);
+    }
+    return slice;
+  }
+
+  private resetSlice(slice: Slice, index: number): void {
+    slice.index = index;
+    slice.count = 0;
+    slice.successes = 0;
+    slice.sum = 0;
+    slice.max = 0;
+    slice.buckets.fill(0);
+  }
+}
+
+/**
+ * Estimate a percentile by linear interpolation inside the bucket holding
+ * the target rank, capped at the observed maximum
+ */
+function estimatePercentile(
+  buckets: Uint32Array,
+  count: number,
+  percentile: number,
+  max: number
+): number {
+  if (count === 0) return 0;
+
+  const rank = Math.ceil((percentile / 100) * count);
+  let cumulative = 0;
+  for (let i = 0; i < buckets.length; i++) {
+    if (buckets[i] === 0) continue;
+    if (cumulative + buckets[i] >= rank) {
+      const lower = i === 0 ? 0 : LATENCY_BOUNDS[i - 1];
+      const upper = i < LATENCY_BOUNDS.length ? LATENCY_BOUNDS[i] : max;
+      const fraction = (rank - cumulative) / buckets[i];
+      return Math.min(max, lower + (upper - lower) * fraction);
+    }
+    cumulative += buckets[i];
+  }
+  return max;
+}
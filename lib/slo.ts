@@ -0,0 +1,309 @@
+/**
+ * Service level objectives and error budgets
+ *
+ * An SLO states the share of requests that must be "good" over 30 days:
+ * - availability: the request succeeded (`objective: 99.5`)
+ * - latency: the request finished within `thresholdMs`
+ *   ("p95 < 800ms" is `{ objective: 95, thresholdMs: 800 }`)
+ *
+ * Good/total counts are kept in rolling 5m, 1h, 24h and 30d windows. The
+ * burn rate of a window is its error rate divided by the error budget
+ * (100% - objective): 1 spends the budget exactly over 30 days, 14.4 spends
+ * 2% of it per hour. Alerts use two windows so they fire quickly but only
+ * while the burn is still happening, and are logged once per transition.
+ *
+ * Counts live in memory and restart with the process.
+ *
+ * @example
+ * ```typescript
+ * const health = createHealthMiddleware("service-pdf", {
+ *   slos: [
+ *     { name: "availability", type: "availability", objective: 99.5 },
+ *     { name: "latency", type: "latency", objective: 95, thresholdMs: 800 },
+ *   ],
+ * });
+ * ```
+ */
+
+import { createLogger } from "./logger.ts";
+import type { SloAlertSeverity, SloStatus, SloWindow } from "./types.ts";
+
+export interface SloDefinition {
+  name: string;
+  type: "availability" | "latency";
+  /** Target share of good requests, in percent (e.g. 99.5) */
+  objective: number;
+  /** Latency SLOs: requests at or under this duration are good */
+  thresholdMs?: number;
+}
+
+/**
+ * Fires when both windows burn at least `burnRate` times the sustainable rate
+ */
+export interface BurnRateAlertRule {
+  severity: SloAlertSeverity;
+  longWindow: SloWindow;
+  shortWindow: SloWindow;
+  burnRate: number;
+}
+
+export interface SloTrackerOptions {
+  /** Default: critical at 14.4x over 1h+5m, warning at 3x over 24h+1h */
+  alertRules?: BurnRateAlertRule[];
+  /** Requests needed in the short window before an alert can fire (default 10) */
+  minRequests?: number;
+  /** Minimum time between alert evaluations on record (default 10s) */
+  evaluateIntervalMs?: number;
+}
+
+export const DEFAULT_BURN_RATE_ALERTS: ReadonlyArray<BurnRateAlertRule> = [
+  { severity: "critical", longWindow: "1h", shortWindow: "5m", burnRate: 14.4 },
+  { severity: "warning", longWindow: "24h", shortWindow: "1h", burnRate: 3 },
+];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const WINDOWS: Record<SloWindow, { windowMs: number; sliceMs: number }> = {
+  "5m": { windowMs: 5 * MINUTE_MS, sliceMs: 10 * 1000 },
+  "1h": { windowMs: HOUR_MS, sliceMs: MINUTE_MS },
+  "24h": { windowMs: 24 * HOUR_MS, sliceMs: 15 * MINUTE_MS },
+  "30d": { windowMs: 30 * 24 * HOUR_MS, sliceMs: HOUR_MS },
+};
+
+const SEVERITY_RANK: Record<SloAlertSeverity | "none", number> = {
+  none: 0,
+  warning: 1,
+  critical: 2,
+};
+
+/**
+ * Good/total counts over a trailing window, kept in fixed time slices
+ */
+class RollingCounter {
+  private readonly sliceMs: number;
+  private readonly indexes: Float64Array;
+  private readonly good: Float64Array;
+  private readonly total: Float64Array;
+
+  constructor(windowMs: number, sliceMs: number) {
+    const sliceCount = Math.ceil(windowMs / sliceMs);
+    this.sliceMs = sliceMs;
+    this.indexes = new Float64Array(sliceCount).fill(-1);
+    this.good = new Float64Array(sliceCount);
+    this.total = new Float64Array(sliceCount);
+  }
+
+  record(good: boolean, now: number): void {
+    const index = Math.floor(now / this.sliceMs);
+    const slot = index % this.indexes.length;
+    if (this.indexes[slot] !== index) {
+      this.indexes[slot] = index;
+      this.good[slot] = 0;
+      this.total[slot] = 0;
+    }
+    this.total[slot]++;
+    if (good) this.good[slot]++;
+  }
+
+  counts(now: number): { good: number; total: number } {
+    const oldestIndex = Math.floor(now / this.sliceMs) - this.indexes.length + 1;
+    let good = 0;
+    let total = 0;
+    for (let slot = 0; slot < this.indexes.length; slot++) {
+      if (this.indexes[slot] >= oldestIndex) {
+        good += this.good[slot];
+        total += this.total[slot];
+      }
+    }
+    return { good, total };
+  }
+
+  clear(): void {
+    this.indexes.fill(-1);
+    this.good.fill(0);
+    this.total.fill(0);
+  }
+}
+
+/**
+ * One SLO with its rolling windows and current alert state
+ */
+interface TrackedSlo {
+  definition: SloDefinition;
+  windows: Record<SloWindow, RollingCounter>;
+  alert: SloAlertSeverity | "none";
+}
+
+/**
+ * Tracks SLO compliance, error budget and burn-rate alerts for a service
+ */
+export class SloTracker {
+  private readonly slos: TrackedSlo[];
+  private readonly alertRules: ReadonlyArray<BurnRateAlertRule>;
+  private readonly minRequests: number;
+  private readonly evaluateIntervalMs: number;
+  private readonly logger: ReturnType<typeof createLogger>;
+  private lastEvaluation = 0;
+
+  /**
+   * @throws Error for objectives outside (0, 100) or latency SLOs without thresholdMs
+   */
+  constructor(
+    serviceName: string,
+    definitions: SloDefinition[],
+    options: SloTrackerOptions = {}
+  ) {
+    for (const definition of definitions) {
+      if (!(definition.objective > 0 && definition.objective < 100)) {
+        throw new Error(`SLO '${definition.name}' objective must be between 0 and 100`);
+      }
+      if (definition.type === "latency" && definition.thresholdMs === undefined) {
+        throw new Error(`Latency SLO '${definition.name}' requires thresholdMs`);
+      }
+    }
+
+    this.slos = definitions.map((definition) => ({
+      definition,
+      windows: {
+        "5m": new RollingCounter(WINDOWS["5m"].windowMs, WINDOWS["5m"].sliceMs),
+        "1h": new RollingCounter(WINDOWS["1h"].windowMs, WINDOWS["1h"].sliceMs),
+        "24h": new RollingCounter(WINDOWS["24h"].windowMs, WINDOWS["24h"].sliceMs),
+        "30d": new RollingCounter(WINDOWS["30d"].windowMs, WINDOWS["30d"].sliceMs),
+      },
+      alert: "none",
+    }));
+    this.alertRules = options.alertRules ?? DEFAULT_BURN_RATE_ALERTS;
+    this.minRequests = options.minRequests ?? 10;
+    this.evaluateIntervalMs = options.evaluateIntervalMs ?? 10_000;
+    this.logger = createLogger(serviceName, { module: "slo" });
+  }
+
+  record(durationMs: number, success: boolean, now = Date.now()): void {
+    for (const slo of this.slos) {
+      const good = slo.definition.type === "availability"
+        ? success
+        : durationMs <= (slo.definition.thresholdMs ?? Infinity);
+      for (const counter of Object.values(slo.windows)) {
+        counter.record(good, now);
+      }
+    }
+
+    if (now - this.lastEvaluation >= this.evaluateIntervalMs) {
+      this.evaluate(now);
+    }
+  }
+
+  /**
+   * Drop all counts and alert state
+   */
+  clear(): void {
+    for (const slo of this.slos) {
+      for (const counter of Object.values(slo.windows)) {
+        counter.clear();
+      }
+      slo.alert = "none";
+    }
+  }
+
+  /**
+   * Current status of every SLO (also re-evaluates alerts)
+   */
+  getStatus(now = Date.now()): Record<string, SloStatus> {
+    this.evaluate(now);
+
+    const statuses: Record<string, SloStatus> = {};
+    for (const slo of this.slos) {
+      const { definition } = slo;
+      const budget = 100 - definition.objective;
+      const month = slo.windows["30d"].counts(now);
+      const compliance = month.total > 0 ? (month.good / month.total) * 100 : 100;
+      const spent = (100 - compliance) / budget;
+      const round = (value: number) => Math.round(value * 1000) / 1000;
+
+      const status: SloStatus = {
+        type: definition.type,
+        objective_percentage: definition.objective,
+        compliance_percentage: round(compliance),
+        error_budget_remaining_percentage: round(Math.max(0, 1 - spent) * 100),
+        requests_30d: month.total,
+        burn_rates: {
+          "5m": round(this.burnRate(slo, "5m", now)),
+          "1h": round(this.burnRate(slo, "1h", now)),
+          "24h": round(this.burnRate(slo, "24h", now)),
+          "30d": round(this.burnRate(slo, "30d", now)),
+        },
+        alert: slo.alert,
+      };
+      if (definition.thresholdMs !== undefined) {
+        status.threshold_ms = definition.thresholdMs;
+      }
+      statuses[definition.name] = status;
+    }
+    return statuses;
+  }
+
+  /**
+   * Error rate of a window divided by the error budget; 0 without traffic
+   */
+  private burnRate(slo: TrackedSlo, window: SloWindow, now: number): number {
+    const { good, total } = slo.windows[window].counts(now);
+    if (total === 0) return 0;
+    const errorRate = ((total - good) / total) * 100;
+    return errorRate / (100 - slo.definition.objective);
+  }
+
+  private evaluate(now: number): void {
+    this.lastEvaluation = now;
+
+    for (const slo of this.slos) {
+      let alert: SloAlertSeverity | "none" = "none";
+      let firingRule: BurnRateAlertRule | undefined;
+
+      for (const rule of this.alertRules) {
+        if (SEVERITY_RANK[rule.severity] <= SEVERITY_RANK[alert]) continue;
+        if (slo.windows[rule.shortWindow].counts(now).total < this.minRequests) continue;
+        if (
+          this.burnRate(slo, rule.longWindow, now) >= rule.burnRate &&
+          this.burnRate(slo, rule.shortWindow, now) >= rule.burnRate
+        ) {
+          alert = rule.severity;
+          firingRule = rule;
+        }
+      }
+
+      if (alert !== slo.alert) {
+        this.logTransition(slo, alert, firingRule, now);
+        slo.alert = alert;
+      }
+    }
+  }
+
+  private logTransition(
+    slo: TrackedSlo,
+    alert: SloAlertSeverity | "none",
+    rule: BurnRateAlertRule | undefined,
+    now: number
+  ): void {
+    const metadata = {
+      slo: slo.definition.name,
+      slo_type: slo.definition.type,
+      objective_percentage: slo.definition.objective,
+      previous_alert: slo.alert,
+      burn_rate_5m: this.burnRate(slo, "5m", now),
+      burn_rate_1h: this.burnRate(slo, "1h", now),
+      burn_rate_24h: this.burnRate(slo, "24h", now),
+      long_window: rule?.longWindow,
+      short_window: rule?.shortWindow,
+      burn_rate_threshold: rule?.burnRate,
+    };
+
+    if (alert === "critical") {
+      this.logger.error("SLO burn rate alert", { ...metadata, alert });
+    } else if (alert === "warning") {
+      this.logger.warn("SLO burn rate alert", { ...metadata, alert });
+    } else {
+      this.logger.info("SLO burn rate alert resolved", metadata);
+    }
+  }
+}
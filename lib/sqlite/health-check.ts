@@ -0,0 +1,55 @@
+import type { DatabaseSync } from "node:sqlite";
+import type { DependencyCheck } from "../health-checks.ts";
+import { getDatabaseStats } from "./connection.ts";
+
+export type SqliteHealthCheckOptions = {
+  name?: string;
+  critical?: boolean;
+  /** Report degraded once the WAL grows beyond this (checkpoints stalled) */
+  maxWalSizeBytes?: number;
+};
+
+const DEFAULT_MAX_WAL_SIZE_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Readiness check for the service database: runs a test query (fails when
+ * the database is locked beyond busy_timeout or unreadable) and reports
+ * getDatabaseStats() sizes
+ *
+ * node:sqlite is synchronous, so the query blocks the event loop until it
+ * returns and a check timeout cannot interrupt it; there is no timeoutMs
+ * option. busy_timeout bounds how long a locked database can block.
+ */
+export function createSqliteHealthCheck(
+  database: DatabaseSync,
+  options: SqliteHealthCheckOptions = {}
+): DependencyCheck {
+  const {
+    name = "sqlite",
+    maxWalSizeBytes = DEFAULT_MAX_WAL_SIZE_BYTES,
+  } = options;
+
+  return {
+    name,
+    critical: options.critical,
+    check: () => {
+      database.prepare("SELECT 1").get();
+      const stats = getDatabaseStats(database);
+
+      const details = {
+        size_bytes: stats.sizeBytes,
+        wal_size_bytes: stats.walSizeBytes,
+        page_count: stats.pageCount,
+      };
+
+      if (stats.walSizeBytes > maxWalSizeBytes) {
+        return Promise.resolve({
+          status: "degraded",
+          message: `WAL size ${stats.walSizeBytes} bytes exceeds ${maxWalSizeBytes}`,
+          details,
+        });
+      }
+      return Promise.resolve({ status: "healthy", details });
+    },
+  };
+}
@@ -0,0 +1,221 @@
+import type { DatabaseSync } from "node:sqlite";
+import type { HealthHistory } from "../health-middleware.ts";
+import type { HealthSnapshot, HealthStatus, StatusTransition } from "../types.ts";
+
+export type SqliteHealthHistoryOptions = {
+  /** Snapshots and transitions older than this are pruned (default 30 days) */
+  retentionMs?: number;
+  /** Prune once every this many snapshots (default 60, hourly at the default heartbeat) */
+  pruneEverySnapshots?: number;
+};
+
+const DEFAULT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const DEFAULT_PRUNE_EVERY_SNAPSHOTS = 60;
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS health_sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    last_heartbeat_at INTEGER NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_health_sessions_service
+    ON health_sessions (service, last_heartbeat_at)`,
+  `CREATE TABLE IF NOT EXISTS health_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service TEXT NOT NULL,
+    recorded_at INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    requests_in_window INTEGER NOT NULL,
+    success_rate_percentage REAL NOT NULL,
+    response_time_avg_ms REAL NOT NULL,
+    response_time_p95_ms REAL NOT NULL,
+    response_time_p99_ms REAL NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_health_snapshots_service
+    ON health_snapshots (service, recorded_at)`,
+  `CREATE TABLE IF NOT EXISTS health_status_transitions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service TEXT NOT NULL,
+    changed_at INTEGER NOT NULL,
+    from_status TEXT,
+    to_status TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_health_status_transitions_service
+    ON health_status_transitions (service, changed_at)`,
+] as const;
+
+type SessionRow = { id: number; started_at: number; last_heartbeat_at: number };
+type SnapshotRow = {
+  recorded_at: number;
+  status: string;
+  requests_in_window: number;
+  success_rate_percentage: number;
+  response_time_avg_ms: number;
+  response_time_p95_ms: number;
+  response_time_p99_ms: number;
+};
+type TransitionRow = {
+  changed_at: number;
+  from_status: string | null;
+  to_status: string;
+};
+
+/**
+ * Persist HealthMiddleware history (process sessions, heartbeat snapshots
+ * and status transitions) in the service database
+ *
+ * Each process start opens a session whose last_heartbeat_at advances with
+ * every snapshot; the gaps between sessions are counted as downtime, so
+ * uptime is accurate to about one heartbeat interval. Tables are created
+ * and statements prepared when the history is created; old rows are pruned
+ * on start and then every `pruneEverySnapshots` snapshots.
+ */
+export function createSqliteHealthHistory(
+  database: DatabaseSync,
+  serviceName: string,
+  options: SqliteHealthHistoryOptions = {}
+): HealthHistory {
+  const {
+    retentionMs = DEFAULT_RETENTION_MS,
+    pruneEverySnapshots = DEFAULT_PRUNE_EVERY_SNAPSHOTS,
+  } = options;
+
+  for (const statement of SCHEMA) {
+    database.exec(statement);
+  }
+
+  const statements = {
+    pruneSnapshots: database.prepare(
+      "DELETE FROM health_snapshots WHERE service = ? AND recorded_at < ?"
+    ),
+    pruneTransitions: database.prepare(
+      "DELETE FROM health_status_transitions WHERE service = ? AND changed_at < ?"
+    ),
+    pruneSessions: database.prepare(
+      "DELETE FROM health_sessions WHERE service = ? AND last_heartbeat_at < ?"
+    ),
+    insertSession: database.prepare(
+      "INSERT INTO health_sessions (service, started_at, last_heartbeat_at) VALUES (?, ?, ?)"
+    ),
+    updateHeartbeat: database.prepare(
+      "UPDATE health_sessions SET last_heartbeat_at = ? WHERE id = ?"
+    ),
+    insertSnapshot: database.prepare(
+      `INSERT INTO health_snapshots (
+        service, recorded_at, status, requests_in_window, success_rate_percentage,
+        response_time_avg_ms, response_time_p95_ms, response_time_p99_ms
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ),
+    insertTransition: database.prepare(
+      "INSERT INTO health_status_transitions (service, changed_at, from_status, to_status) VALUES (?, ?, ?, ?)"
+    ),
+    selectSessions: database.prepare(
+      `SELECT id, started_at, last_heartbeat_at FROM health_sessions
+       WHERE service = ? AND last_heartbeat_at >= ? ORDER BY started_at`
+    ),
+    selectTransitions: database.prepare(
+      `SELECT changed_at, from_status, to_status FROM health_status_transitions
+       WHERE service = ? AND changed_at >= ? ORDER BY changed_at DESC LIMIT ?`
+    ),
+    selectSnapshots: database.prepare(
+      `SELECT recorded_at, status, requests_in_window, success_rate_percentage,
+              response_time_avg_ms, response_time_p95_ms, response_time_p99_ms
+       FROM health_snapshots
+       WHERE service = ? AND recorded_at >= ? ORDER BY recorded_at DESC LIMIT ?`
+    ),
+  };
+
+  let sessionId: number | undefined;
+  let snapshotsSincePrune = 0;
+
+  const prune = (now: number) => {
+    const cutoff = now - retentionMs;
+    statements.pruneSnapshots.run(serviceName, cutoff);
+    statements.pruneTransitions.run(serviceName, cutoff);
+    statements.pruneSessions.run(serviceName, cutoff);
+    snapshotsSincePrune = 0;
+  };
+
+  return {
+    recordStart(startedAt) {
+      const result = statements.insertSession.run(serviceName, startedAt, startedAt);
+      sessionId = Number(result.lastInsertRowid);
+      prune(startedAt);
+    },
+
+    recordSnapshot(snapshot) {
+      const recordedAt = Date.parse(snapshot.recorded_at);
+      statements.insertSnapshot.run(
+        serviceName,
+        recordedAt,
+        snapshot.status,
+        snapshot.requests_in_window,
+        snapshot.success_rate_percentage,
+        snapshot.response_time_avg_ms,
+        snapshot.response_time_p95_ms,
+        snapshot.response_time_p99_ms
+      );
+      if (sessionId !== undefined) {
+        statements.updateHeartbeat.run(recordedAt, sessionId);
+      }
+      if (++snapshotsSincePrune >= pruneEverySnapshots) {
+        prune(recordedAt);
+      }
+    },
+
+    recordTransition(transition) {
+      statements.insertTransition.run(
+        serviceName,
+        Date.parse(transition.changed_at),
+        transition.from_status,
+        transition.to_status
+      );
+    },
+
+    getUptimePercentage(since, now = Date.now()) {
+      const sessions = statements.selectSessions.all(serviceName, since) as SessionRow[];
+      if (sessions.length === 0) return 100;
+
+      const windowStart = Math.max(since, sessions[0].started_at);
+      const windowMs = now - windowStart;
+      if (windowMs <= 0) return 100;
+
+      let upMs = 0;
+      for (const session of sessions) {
+        // The running session is up until now, not just its last heartbeat
+        const end = session.id === sessionId ? now : session.last_heartbeat_at;
+        upMs += Math.max(0, Math.min(end, now) - Math.max(session.started_at, windowStart));
+      }
+      return Math.min(100, (upMs / windowMs) * 100);
+    },
+
+    getTransitions(since, limit) {
+      const rows = statements.selectTransitions.all(
+        serviceName,
+        since,
+        limit
+      ) as TransitionRow[];
+
+      return rows.reverse().map((row): StatusTransition => ({
+        changed_at: new Date(row.changed_at).toISOString(),
+        from_status: row.from_status as HealthStatus | null,
+        to_status: row.to_status as HealthStatus,
+      }));
+    },
+
+    getSnapshots(since, limit) {
+      const rows = statements.selectSnapshots.all(
+        serviceName,
+        since,
+        limit
+      ) as SnapshotRow[];
+
+      return rows.reverse().map((row): HealthSnapshot => ({
+        ...row,
+        recorded_at: new Date(row.recorded_at).toISOString(),
+        status: row.status as HealthStatus,
+      }));
+    },
+  };
+}
@@ -7,3 +7,9 @@ export {
 } from "./connection.ts";
 
 export type { DatabaseStats } from "./connection.ts";
+
+export { createSqliteHealthCheck } from "./health-check.ts";
+export type { SqliteHealthCheckOptions } from "./health-check.ts";
+
+export { createSqliteHealthHistory } from "./health-history.ts";
+export type { SqliteHealthHistoryOptions } from "./health-history.ts";
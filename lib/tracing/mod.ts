@@ -0,0 +1,10 @@
+/**
+ * Distributed tracing
+ *
+ * A lightweight, OpenTelemetry-compatible span API and OTLP/HTTP JSON
+ * exporters for spans and logs. Trace propagation (traceparent/tracestate)
+ * lives in the correlation module.
+ */
+
+export * from './spans.ts';
+export * from './otlp-exporter.ts';
@@ -0,0 +1,135 @@
+import { deepStrictEqual, strictEqual } from "node:assert/strict";
+import type { LogEntry } from "../types.ts";
+import { createOtlpLogSink, createOtlpSpanExporter } from "./otlp-exporter.ts";
+import type { SpanData } from "./spans.ts";
+
+interface ReceivedRequest {
+  path: string;
+  headers: Headers;
+  body: string;
+}
+
+/**
+ * Run `fn` against a local collector stub that accepts every request
+ */
+async function withCollector(
+  fn: (url: string, received: ReceivedRequest[]) => Promise<void>,
+): Promise<void> {
+  const received: ReceivedRequest[] = [];
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen() {} },
+    async (request) => {
+      received.push({
+        path: new URL(request.url).pathname,
+        headers: request.headers,
+        body: await request.text(),
+      });
+      return new Response(null, { status: 200 });
+    },
+  );
+
+  try {
+    await fn(`http://127.0.0.1:${server.addr.port}`, received);
+  } finally {
+    await server.shutdown();
+  }
+}
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
+function entry(overrides: Partial<LogEntry> = {}): LogEntry {
+  return {
+    timestamp: "2026-01-01T00:00:00.000Z",
+    level: "INFO",
+    message: "hello",
+    service: "service-test",
+    ...overrides,
+  };
+}
+
+type OtlpAttribute = { key: string; value: Record<string, unknown> };
+
+function attributeMap(attributes: OtlpAttribute[]): Record<string, unknown> {
+  return Object.fromEntries(
+    attributes.map(({ key, value }) => [key, Object.values(value)[0]]),
+  );
+}
+
+Deno.test("spans are posted to /v1/traces under their service resource", async () => {
+  await withCollector(async (url, received) => {
+    const exporter = createOtlpSpanExporter({ url, headers: { "X-Tenant": "a" } });
+    const span: SpanData = {
+      name: "GET",
+      kind: "server",
+      serviceName: "service-test",
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      traceFlags: 1,
+      startTimeMs: 1000,
+      endTimeMs: 1250,
+      attributes: { "http.route": "/documents/:id", "http.status_code": 200 },
+      events: [],
+      status: { code: "ok" },
+    };
+    exporter.export(span);
+    await exporter.flush();
+
+    strictEqual(received.length, 1);
+    strictEqual(received[0].path, "/v1/traces");
+    strictEqual(received[0].headers.get("X-Tenant"), "a");
+
+    const { resourceSpans } = JSON.parse(received[0].body);
+    deepStrictEqual(attributeMap(resourceSpans[0].resource.attributes), {
+      "service.name": "service-test",
+    });
+
+    const [otlpSpan] = resourceSpans[0].scopeSpans[0].spans;
+    strictEqual(otlpSpan.traceId, TRACE_ID);
+    strictEqual(otlpSpan.spanId, SPAN_ID);
+    strictEqual(otlpSpan.kind, 2);
+    strictEqual(otlpSpan.startTimeUnixNano, "1000000000");
+    strictEqual(otlpSpan.endTimeUnixNano, "1250000000");
+    deepStrictEqual(otlpSpan.status, { code: 1 });
+    deepStrictEqual(attributeMap(otlpSpan.attributes), {
+      "http.route": "/documents/:id",
+      "http.status_code": "200",
+    });
+  });
+});
+
+Deno.test("log entries are posted to /v1/logs with trace context", async () => {
+  await withCollector(async (url, received) => {
+    const sink = createOtlpLogSink({ url });
+    sink.write(entry({ level: "WARN", trace_id: TRACE_ID, span_id: SPAN_ID, module: "db" }));
+    await sink.flush();
+
+    strictEqual(received[0].path, "/v1/logs");
+
+    const { resourceLogs } = JSON.parse(received[0].body);
+    const [record] = resourceLogs[0].scopeLogs[0].logRecords;
+    strictEqual(record.traceId, TRACE_ID);
+    strictEqual(record.spanId, SPAN_ID);
+    strictEqual(record.severityNumber, 13);
+    strictEqual(record.severityText, "WARN");
+    deepStrictEqual(record.body, { stringValue: "hello" });
+    deepStrictEqual(attributeMap(record.attributes), { module: "db" });
+  });
+});
+
+Deno.test("IDs that are not W3C trace/span IDs stay attributes", async () => {
+  await withCollector(async (url, received) => {
+    const sink = createOtlpLogSink({ url });
+    sink.write(entry({ trace_id: "abc-123-def", span_id: SPAN_ID.toUpperCase() }));
+    await sink.flush();
+
+    const { resourceLogs } = JSON.parse(received[0].body);
+    const [record] = resourceLogs[0].scopeLogs[0].logRecords;
+    strictEqual("traceId" in record, false);
+    strictEqual("spanId" in record, false);
+    deepStrictEqual(attributeMap(record.attributes), {
+      trace_id: "abc-123-def",
+      span_id: SPAN_ID.toUpperCase(),
+    });
+  });
+});
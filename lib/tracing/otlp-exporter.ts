@@ -0,0 +1,290 @@
+/**
+ * OTLP/HTTP JSON export for spans and log entries
+ *
+ * Posts to an OpenTelemetry collector (or any OTLP/HTTP receiver such as
+ * Tempo, Jaeger or Grafana Alloy) at `<url>/v1/traces` and `<url>/v1/logs`,
+ * using the batching, bounded buffering and retry of logging/http-transport.ts.
+ *
+ * Defaults follow the OTel environment variables:
+ * - OTEL_EXPORTER_OTLP_ENDPOINT (default http://localhost:4318)
+ * - OTEL_EXPORTER_OTLP_HEADERS ("key=value,key2=value2")
+ *
+ * Log records carry `traceId`/`spanId` from the entry's `trace_id`/`span_id`
+ * fields, so backends link them to the spans exported here. Values that are
+ * not W3C IDs (e.g. a custom trace ID passed to infoWithTrace) stay
+ * attributes, since a collector rejects the whole request for one bad ID.
+ *
+ * @example
+ * ```typescript
+ * configureTracing({ serviceName: "service-pdf", exporters: [createOtlpSpanExporter()] });
+ * setLogSinks([createConsoleGelfSink(), createOtlpLogSink()]);
+ *
+ * // On shutdown
+ * await Promise.all([flushTracing(), flushLogSinks()]);
+ * ```
+ */
+
+import type { LogEntry } from "../types.ts";
+import {
+  type BatchingSink,
+  type BatchingTransportOptions,
+  type BatchingTransportStats,
+  createBatchBuffer,
+  createBatchingSink,
+  postBatch,
+} from "../logging/http-transport.ts";
+import type { SpanData, SpanExporter, SpanKind } from "./spans.ts";
+
+const DEFAULT_OTLP_ENDPOINT = "http://localhost:4318";
+const SCOPE = { name: "silba-service-modules" };
+
+interface OtlpExporterOptions extends BatchingTransportOptions {
+  /** Collector base URL (default OTEL_EXPORTER_OTLP_ENDPOINT or http://localhost:4318) */
+  url?: string;
+  /** Extra headers (merged over OTEL_EXPORTER_OTLP_HEADERS) */
+  headers?: Record<string, string>;
+}
+
+interface OtlpSpanExporter extends SpanExporter {
+  flush(): Promise<void>;
+  getStats(): BatchingTransportStats;
+}
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number };
+
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+const SPAN_KINDS: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+};
+
+const STATUS_CODES = { unset: 0, ok: 1, error: 2 } as const;
+
+const SEVERITY_NUMBERS: Record<string, number> = {
+  TRACE: 1,
+  DEBUG: 5,
+  INFO: 9,
+  WARN: 13,
+  ERROR: 17,
+};
+
+/** Entry fields mapped to log record fields rather than attributes */
+const LOG_RECORD_FIELDS = new Set(["timestamp", "level", "message", "service"]);
+
+const OTLP_TRACE_ID = /^[0-9a-f]{32}$/;
+const OTLP_SPAN_ID = /^[0-9a-f]{16}$/;
+
+function parseHeaderList(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (value ?? "").split(",")) {
+    const separator = pair.indexOf("=");
+    if (separator > 0) {
+      headers[decodeURIComponent(pair.substring(0, separator).trim())] =
+        decodeURIComponent(pair.substring(separator + 1).trim());
+    }
+  }
+  return headers;
+}
+
+function resolveEndpoint(options: OtlpExporterOptions, path: string): string {
+  const base = options.url ?? Deno.env.get("OTEL_EXPORTER_OTLP_ENDPOINT") ??
+    DEFAULT_OTLP_ENDPOINT;
+  return `${base.replace(/\/$/, "")}${path}`;
+}
+
+function resolveHeaders(options: OtlpExporterOptions): Record<string, string> {
+  return {
+    ...parseHeaderList(Deno.env.get("OTEL_EXPORTER_OTLP_HEADERS")),
+    ...options.headers,
+    "Content-Type": "application/json",
+  };
+}
+
+function toNanos(ms: number): string {
+  return `${BigInt(Math.round(ms)) * 1_000_000n}`;
+}
+
+function toAnyValue(value: unknown): OtlpAnyValue {
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  return { stringValue: String(value) };
+}
+
+/**
+ * Convert a flat record to OTLP attributes, skipping null/undefined
+ */
+function toOtlpAttributes(record: Record<string, unknown>): OtlpKeyValue[] {
+  return Object.entries(record)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+function resource(serviceName: string) {
+  return { attributes: toOtlpAttributes({ "service.name": serviceName }) };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(key(item));
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key(item), [item]);
+    }
+  }
+  return groups;
+}
+
+function toOtlpSpan(span: SpanData) {
+  return {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+    ...(span.traceState ? { traceState: span.traceState } : {}),
+    name: span.name,
+    kind: SPAN_KINDS[span.kind],
+    startTimeUnixNano: toNanos(span.startTimeMs),
+    endTimeUnixNano: toNanos(span.endTimeMs),
+    attributes: toOtlpAttributes(span.attributes),
+    events: span.events.map((event) => ({
+      name: event.name,
+      timeUnixNano: toNanos(event.timeMs),
+      attributes: toOtlpAttributes(event.attributes ?? {}),
+    })),
+    status: span.status.message !== undefined
+      ? { code: STATUS_CODES[span.status.code], message: span.status.message }
+      : { code: STATUS_CODES[span.status.code] },
+  };
+}
+
+/**
+ * Build an ExportTraceServiceRequest (one resource per service)
+ */
+function buildOtlpTracesPayload(spans: SpanData[]) {
+  return {
+    resourceSpans: [...groupBy(spans, (span) => span.serviceName)].map((
+      [serviceName, group],
+    ) => ({
+      resource: resource(serviceName),
+      scopeSpans: [{ scope: SCOPE, spans: group.map(toOtlpSpan) }],
+    })),
+  };
+}
+
+/**
+ * The value when it matches `pattern`; other values stay attributes
+ */
+function matchingId(value: unknown, pattern: RegExp): string | undefined {
+  return typeof value === "string" && pattern.test(value) ? value : undefined;
+}
+
+function toOtlpLogRecord(entry: LogEntry) {
+  const timeUnixNano = toNanos(new Date(entry.timestamp).getTime());
+  const traceId = matchingId(entry.trace_id, OTLP_TRACE_ID);
+  const spanId = matchingId(entry.span_id, OTLP_SPAN_ID);
+  const attributes = Object.fromEntries(
+    Object.entries(entry).filter(([key]) =>
+      !LOG_RECORD_FIELDS.has(key) &&
+      !(key === "trace_id" && traceId) &&
+      !(key === "span_id" && spanId)
+    ),
+  );
+
+  return {
+    timeUnixNano,
+    observedTimeUnixNano: timeUnixNano,
+    severityNumber: SEVERITY_NUMBERS[entry.level] ?? SEVERITY_NUMBERS.INFO,
+    severityText: entry.level,
+    body: { stringValue: entry.message },
+    attributes: toOtlpAttributes(attributes),
+    ...(traceId ? { traceId } : {}),
+    ...(spanId ? { spanId } : {}),
+  };
+}
+
+/**
+ * Build an ExportLogsServiceRequest (one resource per service)
+ */
+function buildOtlpLogsPayload(entries: LogEntry[]) {
+  return {
+    resourceLogs: [...groupBy(entries, (entry) => entry.service)].map((
+      [serviceName, group],
+    ) => ({
+      resource: resource(serviceName),
+      scopeLogs: [{ scope: SCOPE, logRecords: group.map(toOtlpLogRecord) }],
+    })),
+  };
+}
+
+/**
+ * Batch finished spans and POST them to `<url>/v1/traces`
+ */
+function createOtlpSpanExporter(
+  options: OtlpExporterOptions = {},
+): OtlpSpanExporter {
+  const endpoint = resolveEndpoint(options, "/v1/traces");
+  const headers = resolveHeaders(options);
+  const buffer = createBatchBuffer<SpanData>(
+    "otlp-traces",
+    (batch) =>
+      postBatch(
+        endpoint,
+        headers,
+        JSON.stringify(buildOtlpTracesPayload(batch)),
+        options.requestTimeoutMs,
+      ),
+    options,
+  );
+
+  return {
+    name: "otlp-traces",
+    export: buffer.add,
+    flush: buffer.flush,
+    getStats: buffer.getStats,
+  };
+}
+
+/**
+ * Log sink that POSTs entries as OTLP log records to `<url>/v1/logs`
+ */
+function createOtlpLogSink(options: OtlpExporterOptions = {}): BatchingSink {
+  const endpoint = resolveEndpoint(options, "/v1/logs");
+  const headers = resolveHeaders(options);
+
+  return createBatchingSink(
+    "otlp-logs",
+    (batch) =>
+      postBatch(
+        endpoint,
+        headers,
+        JSON.stringify(buildOtlpLogsPayload(batch)),
+        options.requestTimeoutMs,
+      ),
+    options,
+  );
+}
+
+export {
+  buildOtlpLogsPayload,
+  buildOtlpTracesPayload,
+  createOtlpLogSink,
+  createOtlpSpanExporter,
+  toOtlpAttributes,
+};
+export type { OtlpExporterOptions, OtlpSpanExporter };
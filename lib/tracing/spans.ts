@@ -0,0 +1,282 @@
+/**
+ * Lightweight span API
+ *
+ * Spans follow the OpenTelemetry data model (trace/span IDs, kind,
+ * attributes, events, status) without pulling in the OTel SDK. Finished
+ * spans go to the configured exporters (see otlp-exporter.ts); without
+ * exporters, spans still assign trace/span IDs so logs can be correlated.
+ *
+ * withSpan() runs a function inside the span's async context, so every
+ * createLogger entry written inside carries `trace_id` and `span_id`, and
+ * nested spans and injectTraceHeaders() pick it up as parent.
+ *
+ * @example
+ * ```typescript
+ * configureTracing({ serviceName: "service-pdf", exporters: [createOtlpSpanExporter()] });
+ *
+ * const text = await withSpan("extract_text", { attributes: { pages: 12 } }, async (span) => {
+ *   const result = await extract(pdf);
+ *   span.setAttribute("chars", result.length);
+ *   return result;
+ * });
+ * ```
+ */
+
+import { runWithContext } from "../correlation/context.ts";
+import {
+  generateSpanId,
+  generateTraceId,
+  getActiveTraceContext,
+  TRACE_FLAG_SAMPLED,
+  type TraceContext,
+} from "../correlation/trace-context.ts";
+
+type SpanKind = "internal" | "server" | "client" | "producer" | "consumer";
+type SpanStatusCode = "unset" | "ok" | "error";
+type SpanAttributeValue = string | number | boolean;
+type SpanAttributes = Record<string, SpanAttributeValue>;
+
+interface SpanEvent {
+  name: string;
+  timeMs: number;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * Immutable record of a finished span, handed to exporters
+ */
+interface SpanData {
+  name: string;
+  kind: SpanKind;
+  serviceName: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  traceFlags: number;
+  traceState?: string;
+  startTimeMs: number;
+  endTimeMs: number;
+  attributes: SpanAttributes;
+  events: SpanEvent[];
+  status: { code: SpanStatusCode; message?: string };
+}
+
+interface SpanExporter {
+  readonly name: string;
+  export(span: SpanData): void;
+  flush?(): Promise<void>;
+}
+
+interface SpanOptions {
+  kind?: SpanKind;
+  /** Parent context; defaults to the active span. `null` starts a new trace. */
+  parent?: TraceContext | null;
+  attributes?: SpanAttributes;
+}
+
+interface TracingConfig {
+  /** Reported as the `service.name` resource (default OTEL_SERVICE_NAME) */
+  serviceName?: string;
+  exporters?: SpanExporter[];
+}
+
+let serviceName = Deno.env.get("OTEL_SERVICE_NAME") ?? "unknown_service";
+let exporters: SpanExporter[] = [];
+
+class Span {
+  readonly name: string;
+  readonly kind: SpanKind;
+  readonly context: TraceContext;
+  readonly parentSpanId?: string;
+  private readonly startTimeMs = Date.now();
+  private readonly attributes: SpanAttributes;
+  private readonly events: SpanEvent[] = [];
+  private status: SpanData["status"] = { code: "unset" };
+  private ended = false;
+
+  constructor(name: string, options: SpanOptions = {}) {
+    const parent = options.parent === undefined
+      ? getActiveTraceContext()
+      : options.parent ?? undefined;
+
+    this.name = name;
+    this.kind = options.kind ?? "internal";
+    this.attributes = { ...options.attributes };
+    this.context = {
+      traceId: parent?.traceId ?? generateTraceId(),
+      spanId: generateSpanId(),
+      traceFlags: parent?.traceFlags ?? TRACE_FLAG_SAMPLED,
+    };
+    if (parent?.traceState) {
+      this.context.traceState = parent.traceState;
+    }
+    if (parent) {
+      this.parentSpanId = parent.spanId;
+    }
+  }
+
+  get isRecording(): boolean {
+    return !this.ended;
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue): this {
+    if (!this.ended) this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    if (!this.ended) Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  addEvent(name: string, attributes?: SpanAttributes): this {
+    if (!this.ended) {
+      this.events.push(
+        attributes ? { name, timeMs: Date.now(), attributes } : { name, timeMs: Date.now() },
+      );
+    }
+    return this;
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    if (!this.ended) {
+      this.status = message !== undefined ? { code, message } : { code };
+    }
+    return this;
+  }
+
+  /**
+   * Add an `exception` event (OTel semantic conventions) and mark the span failed
+   */
+  recordException(error: unknown): this {
+    const message = error instanceof Error ? error.message : String(error);
+    const attributes: SpanAttributes = {
+      "exception.type": error instanceof Error ? error.name : typeof error,
+      "exception.message": message,
+    };
+    if (error instanceof Error && error.stack) {
+      attributes["exception.stacktrace"] = error.stack;
+    }
+    return this.addEvent("exception", attributes).setStatus("error", message);
+  }
+
+  /**
+   * Finish the span and hand it to the exporters (sampled traces only).
+   * Later calls are ignored.
+   */
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    if ((this.context.traceFlags & TRACE_FLAG_SAMPLED) === 0) return;
+
+    const data: SpanData = {
+      name: this.name,
+      kind: this.kind,
+      serviceName,
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      traceFlags: this.context.traceFlags,
+      startTimeMs: this.startTimeMs,
+      endTimeMs: Date.now(),
+      attributes: { ...this.attributes },
+      events: [...this.events],
+      status: { ...this.status },
+    };
+    if (this.parentSpanId) data.parentSpanId = this.parentSpanId;
+    if (this.context.traceState) data.traceState = this.context.traceState;
+
+    for (const exporter of exporters) {
+      try {
+        exporter.export(data);
+      } catch (error) {
+        console.error(`Span exporter '${exporter.name}' failed: ${String(error)}`);
+      }
+    }
+  }
+}
+
+/**
+ * Start a span; the caller must end() it. Prefer withSpan() so logs and
+ * nested spans inherit it.
+ */
+function startSpan(name: string, options?: SpanOptions): Span {
+  return new Span(name, options);
+}
+
+/**
+ * Run `fn` inside a new span: logs and nested spans see it as active,
+ * thrown errors are recorded and rethrown, and the span always ends
+ */
+async function withSpan<T>(
+  name: string,
+  options: SpanOptions,
+  fn: (span: Span) => Promise<T> | T,
+): Promise<T> {
+  const span = startSpan(name, options);
+  const { traceId, spanId, traceFlags, traceState } = span.context;
+
+  try {
+    return await runWithContext(
+      {
+        trace_id: traceId,
+        span_id: spanId,
+        trace_flags: traceFlags,
+        trace_state: traceState,
+      },
+      () => fn(span),
+    );
+  } catch (error) {
+    span.recordException(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Set the service name and exporters for every span ended from now on
+ */
+function configureTracing(config: TracingConfig): void {
+  if (config.serviceName !== undefined) {
+    serviceName = config.serviceName;
+  }
+  if (config.exporters !== undefined) {
+    exporters = [...config.exporters];
+  }
+}
+
+/**
+ * Remove exporters and restore the env-driven service name
+ */
+function resetTracing(): void {
+  serviceName = Deno.env.get("OTEL_SERVICE_NAME") ?? "unknown_service";
+  exporters = [];
+}
+
+/**
+ * Flush every exporter; call during graceful shutdown
+ */
+async function flushTracing(): Promise<void> {
+  await Promise.all(exporters.map((exporter) => exporter.flush?.()));
+}
+
+export {
+  configureTracing,
+  flushTracing,
+  resetTracing,
+  Span,
+  startSpan,
+  withSpan,
+};
+export type {
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanData,
+  SpanEvent,
+  SpanExporter,
+  SpanKind,
+  SpanOptions,
+  SpanStatusCode,
+  TracingConfig,
+};
@@ -23,6 +23,14 @@ interface LoggerConfig {
   module?: string;
   minLevel: LogLevel;
   format: "json" | "text";
+  /** Destinations for this logger's entries; overrides the global sinks */
+  sinks?: LogSink[];
+  /** Redaction rules for this logger; `false` disables redaction */
+  redaction?: RedactionConfig | false;
+  /** Flatten nested metadata instead of throwing; opt-in */
+  flattenMetadata?: boolean | FlattenOptions;
+  /** Sampling and dedupe for this logger; `false` disables the global one */
+  sampling?: SamplingConfig | false;
 }
 
 interface LogEntry {
@@ -35,11 +43,119 @@ interface LogEntry {
   [key: string]: unknown;
 }
 
+/**
+ * Destination for log entries (console, file, HTTP, memory, ...)
+ *
+ * write() must not throw for transient failures and must return quickly;
+ * sinks that do I/O buffer entries and ship them in flush().
+ */
+interface LogSink {
+  readonly name: string;
+  write(entry: LogEntry): void;
+  flush?(): Promise<void>;
+  close?(): Promise<void>;
+}
+
+/**
+ * Finds sensitive substrings inside string values (tokens, emails, ...)
+ */
+interface ValueDetector {
+  readonly name: string;
+  readonly pattern: RegExp;
+  /** Optional check on each match (e.g. Luhn for card numbers) */
+  readonly validate?: (match: string) => boolean;
+}
+
+/**
+ * Rules applied to every log entry before any sink sees it
+ */
+interface RedactionConfig {
+  /** Metadata keys whose whole value is redacted; "*" is a wildcard, case-insensitive */
+  keyPatterns?: Array<string | RegExp>;
+  /** Detectors applied to the message and every string value */
+  valueDetectors?: ValueDetector[];
+  /** "mask" replaces with [REDACTED], "hash" with a stable short SHA-256 */
+  mode?: "mask" | "hash";
+}
+
+/**
+ * Keeps a subset of matching entries; omitted criteria match everything
+ */
+interface SamplingRule {
+  /** Level name, e.g. "TRACE" */
+  level?: string;
+  /** Module name; "*" is a wildcard */
+  module?: string;
+  /** Exact message or pattern */
+  message?: string | RegExp;
+  /** Fraction of matching entries kept, 0..1 (default 1) */
+  rate?: number;
+  /** Cap on matching entries kept per second */
+  maxPerSecond?: number;
+}
+
+/**
+ * Sampling rules and burst deduplication; ERROR entries are never sampled
+ */
+interface SamplingConfig {
+  /** First matching rule applies */
+  rules?: SamplingRule[];
+  /** Collapse identical messages within `windowMs` into one `suppressed_count` entry */
+  dedupe?: { windowMs: number; maxKeys?: number } | false;
+  /** Random source for `rate` (default Math.random) */
+  random?: () => number;
+}
+
+/**
+ * Limits for flattening nested metadata into prefixed keys
+ */
+interface FlattenOptions {
+  /** Joins key path segments (default "_") */
+  separator?: string;
+  /** Nesting levels expanded before values are JSON-encoded (default 3) */
+  maxDepth?: number;
+  /** Array items kept per array (default 10) */
+  maxArrayLength?: number;
+  /** Keys kept per entry (default 100) */
+  maxKeys?: number;
+  /** Length limit for JSON-encoded leaves (default 1000) */
+  maxStringLength?: number;
+}
+
+/**
+ * Options for expanding an Error into flat log fields
+ */
+interface SerializeErrorOptions {
+  /** Field name prefix (default "error") */
+  prefix?: string;
+  /** Include `<prefix>_stack` for the top-level error (default true) */
+  includeStack?: boolean;
+  /** Causes followed along the `cause` chain (default 5) */
+  maxCauseDepth?: number;
+  /** RetryExhaustedError attempt messages kept (default 10) */
+  maxAttemptErrors?: number;
+}
+
 type FlatLogMetadata = Record<
   string,
   string | number | boolean | null | undefined
 >;
 
+/**
+ * Metadata accepted by logger methods: flat primitives, plus Error values
+ * which are expanded into `<key>_*` fields
+ */
+type LogMetadata = Record<
+  string,
+  string | number | boolean | null | undefined | Error
+>;
+
+/**
+ * Metadata accepted by loggers created with `flattenMetadata`, which
+ * flatten nested objects and arrays into prefixed keys
+ */
+type NestedLogMetadata = Record<string, unknown>;
+
 function isPrimitive(value: unknown): boolean {
   return (
     value === null ||
@@ -291,39 +407,192 @@ interface EnhancedHealthResponse {
   uptime_percentage: number;
   uptime_seconds: number;
   response_time_avg_ms: number;
+  response_time_p50_ms: number;
   response_time_p95_ms: number;
+  response_time_p99_ms: number;
+  /** Lifetime counters since start */
   requests_total: number;
   requests_successful: number;
+  /** Requests in the sliding window used for latency and success rate */
+  requests_in_window: number;
+  window_seconds: number;
   success_rate_percentage: number;
   last_restart: string;
   service_specific?: Record<string, string | number | boolean>;
+  /** Per-dependency results (readiness responses only) */
+  dependencies?: Record<string, DependencyHealth>;
+  /** Per-route breakdown keyed by "METHOD /route/:template" */
+  routes?: Record<string, RouteHealth>;
+  /** SLO compliance and error budgets keyed by SLO name */
+  slos?: Record<string, SloStatus>;
+}
+
+/**
+ * Aggregated health persisted on each heartbeat
+ */
+interface HealthSnapshot {
+  recorded_at: string;
+  status: HealthStatus;
+  requests_in_window: number;
+  success_rate_percentage: number;
+  response_time_avg_ms: number;
+  response_time_p95_ms: number;
+  response_time_p99_ms: number;
+}
+
+/**
+ * Change of the overall health status; from_status is null for the first
+ * status after a start
+ */
+interface StatusTransition {
+  changed_at: string;
+  from_status: HealthStatus | null;
+  to_status: HealthStatus;
+}
+
+/**
+ * Status history for dashboards
+ */
+interface HealthHistoryResponse {
+  service: string;
+  since: string;
+  uptime_percentage: number;
+  transitions: StatusTransition[];
+  snapshots?: HealthSnapshot[];
+}
+
+/**
+ * Probe result for one downstream service
+ */
+interface ClusterServiceHealth {
+  status: HealthStatus;
+  critical: boolean;
+  weight: number;
+  latency_ms: number;
+  checked_at: string;
+  /** Age of the cached result when the report was built */
+  cache_age_ms?: number;
+  http_status?: number;
+  /** Why the service counts as unhealthy (unreachable, timeout, bad payload) */
+  error?: string;
+  /** The service's own health payload */
+  health?: EnhancedHealthResponse;
+}
+
+/**
+ * Combined health of downstream services
+ */
+interface ClusterHealthResponse {
+  status: HealthStatus;
+  /** Weighted health score: healthy 1, degraded 0.5, unhealthy 0 */
+  score: number;
+  checked_at: string;
+  services: Record<string, ClusterServiceHealth>;
+}
+
+type SloWindow = "5m" | "1h" | "24h" | "30d";
+type SloAlertSeverity = "warning" | "critical";
+
+/**
+ * Compliance, error budget and burn rates of one SLO
+ */
+interface SloStatus {
+  type: "availability" | "latency";
+  objective_percentage: number;
+  threshold_ms?: number;
+  /** Share of good requests over 30 days */
+  compliance_percentage: number;
+  /** Unspent share of the 30-day error budget (0 once exhausted) */
+  error_budget_remaining_percentage: number;
+  requests_30d: number;
+  /** Error rate divided by the error budget; 1 spends it exactly in 30 days */
+  burn_rates: Record<SloWindow, number>;
+  alert: SloAlertSeverity | "none";
+}
+
+/**
+ * Request metrics for one route template over the health window
+ */
+interface RouteHealth {
+  method: string;
+  route: string;
+  requests_in_window: number;
+  error_rate_percentage: number;
+  response_time_avg_ms: number;
+  response_time_p50_ms: number;
+  response_time_p95_ms: number;
+  response_time_p99_ms: number;
+  /** Lifetime request counts by status class ("2xx", "5xx", ...) */
+  status_classes: Record<string, number>;
+}
+
+/**
+ * Result of one dependency health check
+ */
+interface DependencyHealth {
+  status: HealthStatus;
+  /** Whether failure makes the service unready */
+  critical: boolean;
+  latency_ms: number;
+  checked_at: string;
+  message?: string;
+  details?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Liveness probe body: the process is up and serving requests
+ */
+interface LivenessResponse {
+  status: "healthy";
+  uptime_seconds: number;
+  last_restart: string;
 }
 
 export type {
   AnthropicChatRequest,
   AnthropicChatResponse,
   AnthropicUsage,
+  ClusterHealthResponse,
+  ClusterServiceHealth,
   CompanyInformation,
   CorsConfig,
   CostDetails,
   DeepSeekUsage,
+  DependencyHealth,
   EnhancedHealthResponse,
   FlatLogMetadata,
+  FlattenOptions,
   GenericUsage,
   GoogleUsage,
+  HealthHistoryResponse,
+  HealthSnapshot,
   HealthStatus,
+  LivenessResponse,
   LogEntry,
+  LogMetadata,
   LoggerConfig,
+  LogSink,
+  NestedLogMetadata,
   OpenAIResponsesRequest,
   OpenAIResponsesResponse,
   OpenAITool,
   OpenAIUsage,
   Prompt,
   PromptPair,
+  RedactionConfig,
+  RouteHealth,
+  SamplingConfig,
+  SamplingRule,
+  SerializeErrorOptions,
   ServiceResponse,
   SilbaCitation,
+  SloAlertSeverity,
+  SloStatus,
+  SloWindow,
+  StatusTransition,
   SystemPrompt,
   UserPrompt,
+  ValueDetector,
 };
 
 export {
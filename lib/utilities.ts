@@ -6,4 +6,16 @@ function assertApiKey(value: string | undefined, keyName: string): string {
   return value;
 }
 
-export { assertApiKey };
+/**
+ * Read an integer setting from the environment, falling back when the
+ * variable is unset or not an integer >= `min` ("abc", "0", "2.5")
+ */
+function readIntegerEnv(keyName: string, fallback: number, min = 1): number {
+  const value = Deno.env.get(keyName)?.trim();
+  if (!value || !/^-?\d+$/.test(value)) return fallback;
+
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) && parsed >= min ? parsed : fallback;
+}
+
+export { assertApiKey, readIntegerEnv };